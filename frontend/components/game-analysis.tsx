@@ -0,0 +1,69 @@
+"use client";
+
+import { Move } from "@/lib/contract";
+import { analyzePosition, Outcome } from "@/lib/solver";
+import { useMemo } from "react";
+
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  win: "Win",
+  draw: "Draw",
+  loss: "Loss",
+};
+
+const OUTCOME_CLASSES: Record<Outcome, string> = {
+  win: "text-green-500",
+  draw: "text-gray-300",
+  loss: "text-red-500",
+};
+
+type GameAnalysisProps = {
+  board: Move[];
+  // The side to move, the values are from its point of view
+  nextMove: Move;
+};
+
+// What every free cell leads to when both sides play perfectly afterwards
+export function GameAnalysis({ board, nextMove }: GameAnalysisProps) {
+  const analysis = useMemo(
+    () => analyzePosition(board, nextMove),
+    [board, nextMove]
+  );
+  if (!analysis) return null;
+
+  const side = nextMove === Move.X ? "X" : "O";
+
+  return (
+    <div className="flex flex-col gap-2 border border-gray-600 rounded-lg p-4">
+      <div className="text-sm text-gray-500">
+        {side} to move,{" "}
+        <span className={OUTCOME_CLASSES[analysis.outcome]}>
+          {OUTCOME_LABELS[analysis.outcome].toLowerCase()}
+        </span>{" "}
+        with perfect play
+      </div>
+
+      <div className="grid grid-cols-3 gap-1 w-fit">
+        {analysis.cells.map((outcome, index) => {
+          const isBest = analysis.bestMoves.includes(index);
+          return (
+            <div
+              key={index}
+              className={
+                "size-16 rounded-md flex items-center justify-center text-sm border " +
+                (isBest ? "border-blue-500 border-2 " : "border-gray-700 ") +
+                (outcome ? OUTCOME_CLASSES[outcome] : "text-gray-600")
+              }
+              title={isBest ? "Best move" : undefined}
+            >
+              {outcome
+                ? OUTCOME_LABELS[outcome]
+                : board[index] === Move.X
+                  ? "X"
+                  : "O"}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Move } from "@/lib/contract";
 type GameBoardProps = {
   board: Move[];
   onCellClick?: (index: number) => void;
+  // Cells for which this returns false cannot be clicked, e.g. because the move would be illegal
+  isCellPlayable?: (index: number) => boolean;
   cellClassName?: string;
   nextMove?: Move;
 };
@@ -12,31 +14,48 @@ type GameBoardProps = {
 export function GameBoard({
   board,
   onCellClick,
+  isCellPlayable,
   nextMove,
   cellClassName,
 }: GameBoardProps) {
   return (
     <div className="flex flex-col items-start gap-2">
       <div className="grid grid-cols-3 gap-2">
-        {board.map((cell, index) => (
-          <div
-            key={index}
-            className={
-              "border border-gray-600 rounded-md flex items-center justify-center font-bold group cursor-pointer " +
-              cellClassName
-            }
-            onClick={() => onCellClick?.(index)}
-          >
-            {cell === Move.EMPTY ? (
-              <span className="hidden group-hover:block text-gray-500">
-                {nextMove === Move.X ? "X" : nextMove === Move.O ? "O" : ""}
-              </span>
-            ) : (
-              <span>{cell === Move.X ? "X" : cell === Move.O ? "O" : ""}</span>
-            )}
-          </div>
-        ))}
+        {board.map((cell, index) => {
+          const isDisabled = !!onCellClick && isCellPlayable?.(index) === false;
+
+          return (
+            <div
+              key={index}
+              className={
+                "border border-gray-600 rounded-md flex items-center justify-center font-bold group " +
+                (isDisabled ? "cursor-not-allowed " : "cursor-pointer ") +
+                cellClassName
+              }
+              aria-disabled={isDisabled}
+              onClick={() => {
+                if (!isDisabled) onCellClick?.(index);
+              }}
+            >
+              {cell === Move.EMPTY ? (
+                <span
+                  className={
+                    isDisabled
+                      ? "hidden"
+                      : "hidden group-hover:block text-gray-500"
+                  }
+                >
+                  {nextMove === Move.X ? "X" : nextMove === Move.O ? "O" : ""}
+                </span>
+              ) : (
+                <span>
+                  {cell === Move.X ? "X" : cell === Move.O ? "O" : ""}
+                </span>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
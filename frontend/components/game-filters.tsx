@@ -0,0 +1,183 @@
+"use client";
+
+import { formatStx, getAmountError, parseStx } from "@/lib/amount";
+import {
+  GAME_SORTS,
+  GAME_STATUS_FILTERS,
+  GameQuery,
+  GameSort,
+  GameStatusFilter,
+} from "@/lib/game-query";
+import { useRouter } from "next/navigation";
+import { FormEvent, useEffect, useState } from "react";
+
+const STATUS_LABELS: Record<GameStatusFilter, string> = {
+  all: "All games",
+  joinable: "Joinable",
+  challenges: "Challenges for you",
+  mine: "My active games",
+  ended: "Ended",
+  drawn: "Drawn",
+};
+
+const SORT_LABELS: Record<GameSort, string> = {
+  newest: "Newest",
+  bet: "Bet size",
+  activity: "Last activity",
+};
+
+const INPUT_CLASS_NAME =
+  "rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-sm";
+
+// The text fields are only applied on submit, so the URL does not change with every key press
+export function GameFilters({
+  query,
+  onChange,
+  isConnected,
+}: {
+  query: GameQuery;
+  onChange: (changes: Partial<GameQuery>) => void;
+  isConnected: boolean;
+}) {
+  const router = useRouter();
+  const [minBet, setMinBet] = useState("");
+  const [maxBet, setMaxBet] = useState("");
+  const [opponent, setOpponent] = useState("");
+  const [gameId, setGameId] = useState("");
+
+  // Follow the URL, e.g. when going back to an earlier query
+  useEffect(() => {
+    setMinBet(query.minBet === null ? "" : formatStx(query.minBet));
+    setMaxBet(query.maxBet === null ? "" : formatStx(query.maxBet));
+    setOpponent(query.opponent ?? "");
+  }, [query.minBet, query.maxBet, query.opponent]);
+
+  const betError =
+    (minBet && getAmountError(minBet)) || (maxBet && getAmountError(maxBet));
+  const gameIdError =
+    gameId && !/^\d+$/.test(gameId.trim()) ? "Enter a game number" : null;
+
+  function applyFilters(event: FormEvent) {
+    event.preventDefault();
+    if (betError) return;
+    onChange({
+      minBet: minBet ? parseStx(minBet) : null,
+      maxBet: maxBet ? parseStx(maxBet) : null,
+      opponent: opponent.trim().toUpperCase() || null,
+    });
+  }
+
+  function jumpToGame(event: FormEvent) {
+    event.preventDefault();
+    if (!gameId || gameIdError) return;
+    router.push(`/game/${parseInt(gameId.trim())}`);
+  }
+
+  return (
+    <div className="flex flex-col gap-4 border border-gray-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          aria-label="Status"
+          value={query.status}
+          onChange={(e) =>
+            onChange({ status: e.target.value as GameStatusFilter })
+          }
+          className={INPUT_CLASS_NAME}
+        >
+          {GAME_STATUS_FILTERS.map((status) => (
+            <option
+              key={status}
+              value={status}
+              disabled={
+                (status === "mine" || status === "challenges") && !isConnected
+              }
+            >
+              {STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+
+        <select
+          aria-label="Sort by"
+          value={query.sort}
+          onChange={(e) => onChange({ sort: e.target.value as GameSort })}
+          className={INPUT_CLASS_NAME}
+        >
+          {GAME_SORTS.map((sort) => (
+            <option key={sort} value={sort}>
+              {SORT_LABELS[sort]}
+            </option>
+          ))}
+        </select>
+
+        <label
+          className={`flex items-center gap-2 text-sm ${isConnected ? "" : "text-gray-500"}`}
+          title={isConnected ? undefined : "Connect your wallet first"}
+        >
+          <input
+            type="checkbox"
+            checked={query.myTurn}
+            disabled={!isConnected}
+            onChange={(e) => onChange({ myTurn: e.target.checked })}
+          />
+          My turn
+        </label>
+
+        <form onSubmit={jumpToGame} className="flex items-center gap-2 ml-auto">
+          <input
+            aria-label="Game number"
+            inputMode="numeric"
+            placeholder="Game #"
+            value={gameId}
+            onChange={(e) => setGameId(e.target.value)}
+            className={`${INPUT_CLASS_NAME} w-24`}
+          />
+          <button
+            type="submit"
+            disabled={!gameId || !!gameIdError}
+            className="rounded-lg bg-gray-700 px-4 py-2 text-sm font-medium text-white hover:bg-gray-600 disabled:opacity-50"
+          >
+            Go
+          </button>
+        </form>
+      </div>
+
+      <form
+        onSubmit={applyFilters}
+        className="flex flex-wrap items-center gap-4"
+      >
+        <input
+          aria-label="Minimum bet in STX"
+          inputMode="decimal"
+          placeholder="Min bet (STX)"
+          value={minBet}
+          onChange={(e) => setMinBet(e.target.value)}
+          className={`${INPUT_CLASS_NAME} w-36`}
+        />
+        <input
+          aria-label="Maximum bet in STX"
+          inputMode="decimal"
+          placeholder="Max bet (STX)"
+          value={maxBet}
+          onChange={(e) => setMaxBet(e.target.value)}
+          className={`${INPUT_CLASS_NAME} w-36`}
+        />
+        <input
+          aria-label="Player address"
+          placeholder="Search player address"
+          value={opponent}
+          onChange={(e) => setOpponent(e.target.value)}
+          className={`${INPUT_CLASS_NAME} flex-1 min-w-48`}
+        />
+        <button
+          type="submit"
+          disabled={!!betError}
+          className="rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 disabled:opacity-50"
+        >
+          Apply
+        </button>
+        {betError && <span className="text-sm text-red-500">{betError}</span>}
+      </form>
+    </div>
+  );
+}
@@ -1,168 +1,224 @@
 "use client";
 
-import { Game } from "@/lib/contract";
+import { Game, getPayouts, isGameFinished } from "@/lib/contract";
 import Link from "next/link";
 import { GameBoard } from "./game-board";
-import { useStacks } from "@/hooks/use-stacks";
-import { useMemo } from "react";
-import { formatStx } from "@/lib/stx-utils";
+import { useLobby } from "@/hooks/use-lobby";
+import { displayStx } from "@/lib/amount";
+import {
+  DEFAULT_GAME_QUERY,
+  isChallengeFor,
+  isPersonalQuery,
+  isPlayerTurn,
+  isUnfilteredQuery,
+  LobbyResult,
+} from "@/lib/game-query";
+import { abbreviateAddress } from "@/lib/stx-utils";
+import { GameFilters } from "./game-filters";
+import { SyncStatus } from "./sync-status";
 
-export function GamesList({ games }: { games: Game[] }) {
-  const { userData } = useStacks();
-
-  // User Games are games in which the user is a player
-  // and a winner has not been decided yet
-  const userGames = useMemo(() => {
-    if (!userData) return [];
-    const userAddress = userData.profile.stxAddress.testnet;
-    const filteredGames = games.filter(
-      (game) =>
-        (game["player-one"] === userAddress ||
-          game["player-two"] === userAddress) &&
-        game.winner === null
-    );
-    return filteredGames;
-  }, [userData, games]);
-
-  // Joinable games are games in which there still isn't a second player
-  // and also the currently logged in user is not the creator of the game
-  const joinableGames = useMemo(() => {
-    if (!userData) return [];
-    const userAddress = userData.profile.stxAddress.testnet;
-
-    return games.filter(
-      (game) =>
-        game.winner === null &&
-        game["player-one"] !== userAddress &&
-        game["player-two"] === null
-    );
-  }, [games, userData]);
-
-  // Ended games are games in which the winner has been decided
-  const endedGames = useMemo(() => {
-    return games.filter((game) => game.winner !== null);
-  }, [games]);
+function GameCard({ game, player }: { game: Game; player: string | null }) {
+  const isMyTurn = !!player && isPlayerTurn(game, player);
+  const isMyChallenge = !!player && isChallengeFor(game, player);
+  // Only the creator sees challenges for someone else in the lobby
+  const invitedOpponent =
+    game.status === "waiting" && !isMyChallenge
+      ? game["invited-opponent"]
+      : null;
 
   return (
-    <div className="w-full max-w-4xl space-y-12">
-      {userData ? (
-        <div>
-          <h2 className="text-2xl font-bold mb-4">Active Games</h2>
-          {userGames.length === 0 ? (
-            <div className="text-center py-12 border rounded-lg">
-              <p className="text-gray-500 mb-4">
-                You haven&apos;t joined any games yet
-              </p>
-              <Link
-                href="/create"
-                className="rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-              >
-                Create New Game
-              </Link>
-            </div>
-          ) : (
-            <div className="flex items-center gap-8 max-w-7xl overflow-y-scroll">
-              {userGames.map((game, index) => (
-                <Link
-                  key={`your-game-${index}`}
-                  href={`/game/${game.id}`}
-                  className="shrink-0 flex flex-col gap-2 border p-4 rounded-md border-gray-700 bg-gray-900 w-fit"
-                >
-                  <GameBoard
-                    key={index}
-                    board={game.board}
-                    cellClassName="size-8 text-xl"
-                  />
-                  <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
-                    {formatStx(game["bet-amount"])} STX
-                  </div>
-                  <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
-                    Next Turn: {game["is-player-one-turn"] ? "X" : "O"}
-                  </div>
-                </Link>
-              ))}
+    <Link
+      href={`/game/${game.id}`}
+      className={`flex flex-col gap-2 border p-4 rounded-md bg-gray-900 ${isMyTurn || isMyChallenge ? "border-blue-500" : "border-gray-700"}`}
+    >
+      <div className="flex items-center justify-between text-sm text-gray-400">
+        <span>Game #{game.id}</span>
+        {isMyTurn && <span className="text-blue-400">Your turn</span>}
+        {isMyChallenge && <span className="text-blue-400">Challenge</span>}
+      </div>
+      <GameBoard board={game.board} cellClassName="size-8 text-xl" />
+      <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
+        {displayStx(game["bet-amount"])} STX
+      </div>
+      {isGameFinished(game) ? (
+        <>
+          <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
+            {game.winner ? `Winner: ${abbreviateAddress(game.winner)}` : "Draw"}
+          </div>
+          {getPayouts(game).map((payout) => (
+            <div
+              key={payout.player}
+              className="text-sm px-1 py-0.5 bg-gray-800 rounded text-center w-full text-gray-400"
+            >
+              {abbreviateAddress(payout.player)} +{displayStx(payout.amount)}{" "}
+              STX
             </div>
-          )}
+          ))}
+        </>
+      ) : (
+        <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
+          {game.status === "waiting"
+            ? invitedOpponent
+              ? `Challenged: ${abbreviateAddress(invitedOpponent)}`
+              : "Waiting for a player"
+            : `Next Turn: ${game["is-player-one-turn"] ? "X" : "O"}`}
         </div>
-      ) : null}
+      )}
+    </Link>
+  );
+}
 
-      <div>
-        <h2 className="text-2xl font-bold mb-4">Joinable Games</h2>
-        {joinableGames.length === 0 ? (
-          <div className="text-center py-12 border rounded-lg">
-            <p className="text-gray-500 mb-4">
-              No joinable games found. Do you want to create a new one?
-            </p>
-            <Link
-              href="/create"
-              className="rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-            >
-              Create New Game
-            </Link>
-          </div>
-        ) : (
-          <div className="flex items-center gap-8 max-w-7xl overflow-y-scroll">
-            {joinableGames.map((game, index) => (
-              <Link
-                key={`joinable-game-${index}`}
-                href={`/game/${game.id}`}
-                className="shrink-0 flex flex-col gap-2 border p-4 rounded-md border-gray-700 bg-gray-900 w-fit"
-              >
-                <GameBoard
-                  key={index}
-                  board={game.board}
-                  cellClassName="size-8 text-xl"
-                />
-                <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
-                  {formatStx(game["bet-amount"])} STX
-                </div>
-                <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
-                  Next Turn: {game["is-player-one-turn"] ? "X" : "O"}
-                </div>
-              </Link>
-            ))}
-          </div>
-        )}
-      </div>
+export function GamesList({
+  initialResult,
+}: {
+  initialResult: LobbyResult | null;
+}) {
+  const {
+    query,
+    setQuery,
+    player,
+    result,
+    isStoredResult,
+    challenges,
+    loading,
+    error,
+    reload,
+    isOnline,
+    syncing,
+    syncError,
+    lastSyncedAt,
+    sync,
+  } = useLobby(initialResult);
+  const needsWallet = isPersonalQuery(query) && !player;
+
+  return (
+    <div className="w-full max-w-4xl space-y-8">
+      <SyncStatus
+        isOnline={isOnline}
+        syncing={syncing}
+        syncError={syncError}
+        lastSyncedAt={lastSyncedAt}
+        onRetry={() => sync()}
+      />
 
-      <div>
-        <h2 className="text-2xl font-bold mb-4">Ended Games</h2>
-        {endedGames.length === 0 ? (
-          <div className="text-center py-12 border rounded-lg">
-            <p className="text-gray-500 mb-4">
-              No ended games yet. Do you want to create a new one?
-            </p>
-            <Link
-              href="/create"
-              className="rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+      {challenges.length > 0 && query.status !== "challenges" && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-blue-400">
+              Challenges for you
+            </span>
+            <button
+              type="button"
+              onClick={() => setQuery({ status: "challenges" })}
+              className="text-gray-500 underline hover:text-gray-300"
             >
-              Create New Game
-            </Link>
+              Show all
+            </button>
           </div>
-        ) : (
-          <div className="flex items-center gap-8 max-w-7xl overflow-y-scroll">
-            {endedGames.map((game, index) => (
-              <Link
-                key={`ended-game-${index}`}
-                href={`/game/${game.id}`}
-                className="shrink-0 flex flex-col gap-2 border p-4 rounded-md border-gray-700 bg-gray-900 w-fit"
-              >
-                <GameBoard
-                  key={index}
-                  board={game.board}
-                  cellClassName="size-8 text-xl"
-                />
-                <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
-                  {formatStx(game["bet-amount"])} STX
-                </div>
-                <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
-                  Winner: {game["is-player-one-turn"] ? "O" : "X"}
-                </div>
-              </Link>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {challenges.slice(0, 4).map((game) => (
+              <GameCard key={game.id} game={game} player={player} />
             ))}
           </div>
+        </div>
+      )}
+
+      <GameFilters query={query} onChange={setQuery} isConnected={!!player} />
+
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>
+          {result.total} game{result.total === 1 ? "" : "s"}
+          {isStoredResult ? " stored in this browser" : ""}
+          {loading ? ", loading..." : ""}
+        </span>
+        {!isUnfilteredQuery(query) && (
+          <button
+            type="button"
+            onClick={() => setQuery(DEFAULT_GAME_QUERY)}
+            className="underline hover:text-gray-300"
+          >
+            Clear filters
+          </button>
         )}
       </div>
+
+      {result.games.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg">
+          <p className="text-gray-500 mb-4">
+            {needsWallet
+              ? "Connect your wallet to see your games"
+              : "No games match these filters. Do you want to create a new one?"}
+          </p>
+          <Link
+            href="/create"
+            className="rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Create New Game
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {result.games.map((game) => (
+            <GameCard key={game.id} game={game} player={player} />
+          ))}
+        </div>
+      )}
+
+      {result.failedGameIds.length > 0 && (
+        <div className="flex items-center justify-between gap-4 border border-yellow-600 rounded-lg p-4 text-sm">
+          <span className="text-yellow-500">
+            {result.failedGameIds.length} game
+            {result.failedGameIds.length === 1 ? "" : "s"} could not be loaded
+            (#{result.failedGameIds.join(", #")})
+          </span>
+          <button
+            type="button"
+            onClick={reload}
+            disabled={loading}
+            className="rounded-lg bg-gray-700 px-4 py-2 font-medium text-white hover:bg-gray-600 disabled:opacity-50"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {error && isOnline && (
+        <div className="flex items-center justify-between gap-4 border border-red-600 rounded-lg p-4 text-sm">
+          <span className="text-red-500">Failed to load games: {error}</span>
+          <button
+            type="button"
+            onClick={reload}
+            disabled={loading}
+            className="rounded-lg bg-gray-700 px-4 py-2 font-medium text-white hover:bg-gray-600 disabled:opacity-50"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {result.pageCount > 1 && (
+        <nav className="flex items-center justify-center gap-4 text-sm">
+          <button
+            type="button"
+            onClick={() => setQuery({ page: result.page - 1 })}
+            disabled={result.page <= 1}
+            className="rounded-lg bg-gray-700 px-4 py-2 font-medium text-white hover:bg-gray-600 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500">
+            Page {result.page} of {result.pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => setQuery({ page: result.page + 1 })}
+            disabled={result.page >= result.pageCount}
+            className="rounded-lg bg-gray-700 px-4 py-2 font-medium text-white hover:bg-gray-600 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </nav>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useGameReplay } from "@/hooks/use-game-replay";
+import { EMPTY_BOARD, Move } from "@/lib/contract";
+import { ReplayStep } from "@/lib/replay";
+import { abbreviateAddress } from "@/lib/stx-utils";
+import { useEffect, useState } from "react";
+import { GameBoard } from "./game-board";
+
+const AUTOPLAY_INTERVAL = 1000; // 1 second
+
+function describeStep(step: ReplayStep) {
+  const symbol = step.move === Move.X ? "X" : "O";
+  const player = abbreviateAddress(step.player);
+  const description = `${symbol} on cell ${step.moveIndex + 1} by ${player}`;
+
+  const event = step.event;
+  if (event?.action !== "play") return description;
+  if (event.winner) return `${description}, wins`;
+  if (event.isDraw) return `${description}, draw`;
+  return description;
+}
+
+export function GameReplay({ gameId }: { gameId: number }) {
+  const { steps, loading, error, retry } = useGameReplay(gameId);
+  // Number of moves shown, 0 is the empty board before create-game
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const stepCount = steps?.length ?? 0;
+
+  // Advance one move per interval and stop at the last move
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (position >= stepCount) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => setPosition(position + 1),
+      AUTOPLAY_INTERVAL
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, stepCount]);
+
+  if (loading) {
+    return <div className="text-gray-500">Loading replay...</div>;
+  }
+
+  if (error || !steps) {
+    return (
+      <div className="flex items-center justify-between gap-4 border border-red-600 rounded-lg p-4 text-sm">
+        <span className="text-red-500">Failed to load the replay: {error}</span>
+        <button
+          type="button"
+          onClick={retry}
+          className="rounded-lg bg-gray-700 px-4 py-2 font-medium text-white hover:bg-gray-600"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const board = position === 0 ? EMPTY_BOARD : steps[position - 1].board;
+
+  function onPlay() {
+    // Start over when autoplay is started on the last move
+    if (position >= stepCount) setPosition(0);
+    setIsPlaying(true);
+  }
+
+  return (
+    <div className="flex flex-col gap-4 w-[400px]">
+      <h2 className="text-2xl font-bold">Replay</h2>
+      <GameBoard board={board} cellClassName="size-16 text-3xl" />
+
+      <div className="text-sm text-gray-500">
+        Move {position} of {stepCount}
+        {position > 0 && `: ${describeStep(steps[position - 1])}`}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => {
+            setIsPlaying(false);
+            setPosition(Math.max(0, position - 1));
+          }}
+          disabled={position === 0}
+          className="rounded bg-gray-700 px-4 py-2 text-white hover:bg-gray-600 disabled:opacity-50"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setIsPlaying(false);
+            setPosition(Math.min(stepCount, position + 1));
+          }}
+          disabled={position === stepCount}
+          className="rounded bg-gray-700 px-4 py-2 text-white hover:bg-gray-600 disabled:opacity-50"
+        >
+          Step
+        </button>
+        <button
+          type="button"
+          onClick={isPlaying ? () => setIsPlaying(false) : onPlay}
+          disabled={stepCount === 0}
+          className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600 disabled:opacity-50"
+        >
+          {isPlaying ? "Pause" : "Autoplay"}
+        </button>
+      </div>
+    </div>
+  );
+}
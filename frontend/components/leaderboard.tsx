@@ -0,0 +1,68 @@
+import { displayStx } from "@/lib/amount";
+import { PlayerRating } from "@/lib/ratings";
+import { abbreviateAddress } from "@/lib/stx-utils";
+import Link from "next/link";
+
+interface LeaderboardProps {
+  ratings: PlayerRating[];
+  // Ids of games that could not be loaded, the ratings leave them out
+  failedGameIds: number[];
+}
+
+export function Leaderboard({ ratings, failedGameIds }: LeaderboardProps) {
+  return (
+    <div className="w-full max-w-4xl space-y-8">
+      {failedGameIds.length > 0 && (
+        <div className="border border-yellow-600 rounded-lg p-4 text-sm text-yellow-500">
+          {failedGameIds.length} game{failedGameIds.length === 1 ? "" : "s"}{" "}
+          could not be loaded, the ratings may be incomplete
+        </div>
+      )}
+
+      {ratings.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg">
+          <p className="text-gray-500">No finished games yet</p>
+        </div>
+      ) : (
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="border-b border-gray-700 text-sm text-gray-500">
+              <th className="py-2 px-2">#</th>
+              <th className="py-2 px-2">Player</th>
+              <th className="py-2 px-2 text-right">Rating</th>
+              <th className="py-2 px-2 text-right">Games</th>
+              <th className="py-2 px-2 text-right">W / L / D</th>
+              <th className="py-2 px-2 text-right">Winnings</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ratings.map((rating, index) => (
+              <tr key={rating.player} className="border-b border-gray-800">
+                <td className="py-2 px-2 text-gray-500">{index + 1}</td>
+                <td className="py-2 px-2">
+                  <Link
+                    href={`/player/${rating.player}`}
+                    className="hover:underline"
+                  >
+                    {abbreviateAddress(rating.player)}
+                  </Link>
+                </td>
+                <td className="py-2 px-2 text-right font-bold">
+                  {Math.round(rating.rating)}
+                </td>
+                <td className="py-2 px-2 text-right">{rating.gamesPlayed}</td>
+                <td className="py-2 px-2 text-right">
+                  {rating.wins} / {rating.losses} / {rating.draws}
+                </td>
+                <td className="py-2 px-2 text-right">
+                  {rating.winnings > 0n ? "+" : ""}
+                  {displayStx(rating.winnings)} STX
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
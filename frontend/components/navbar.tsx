@@ -1,11 +1,12 @@
 "use client";
 
-import { useStacks } from "@/hooks/use-stacks";
+import { useStacksActions, useStacksAddress } from "@/hooks/use-stacks";
 import { abbreviateAddress } from "@/lib/stx-utils";
 import Link from "next/link";
 
 export function Navbar() {
-  const { userData, connectWallet, disconnectWallet } = useStacks();
+  const address = useStacksAddress();
+  const { connectWallet, disconnectWallet } = useStacksActions();
 
   return (
     <nav className="flex w-full items-center justify-between gap-4 p-4 h-16 border-b border-gray-500">
@@ -20,17 +21,23 @@ export function Navbar() {
         <Link href="/create" className="text-gray-300 hover:text-gray-50">
           Create Game
         </Link>
+        <Link href="/practice" className="text-gray-300 hover:text-gray-50">
+          Practice
+        </Link>
+        <Link href="/leaderboard" className="text-gray-300 hover:text-gray-50">
+          Leaderboard
+        </Link>
       </div>
 
       <div className="flex items-center gap-2">
-        {userData ? (
+        {address ? (
           <div className="flex items-center gap-2">
-            <button
-              type="button"
+            <Link
+              href={`/player/${address}`}
               className="rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
             >
-              {abbreviateAddress(userData.profile.stxAddress.testnet)}
-            </button>
+              {abbreviateAddress(address)}
+            </Link>
             <button
               type="button"
               onClick={disconnectWallet}
@@ -51,4 +58,4 @@ export function Navbar() {
       </div>
     </nav>
   );
-}
\ No newline at end of file
+}
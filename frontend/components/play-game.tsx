@@ -1,39 +1,81 @@
 "use client";
 
-import { Game, Move } from "@/lib/contract";
+import { Game, getPayouts, isGameFinished, Move } from "@/lib/contract";
 import { GameBoard } from "./game-board";
-import { abbreviateAddress, explorerAddress, formatStx } from "@/lib/stx-utils";
+import { GameAnalysis } from "./game-analysis";
+import { displayStx } from "@/lib/amount";
+import { abbreviateAddress, explorerAddress } from "@/lib/stx-utils";
 import Link from "next/link";
-import { useStacks } from "@/hooks/use-stacks";
+import { useStacksActions, useStacksAddress } from "@/hooks/use-stacks";
+import { useGame } from "@/hooks/use-game";
+import { useNetwork } from "@/hooks/use-network";
+import { usePendingTransactions } from "@/hooks/use-pending-transactions";
+import { transactionFailureMessage } from "@/lib/transactions";
+import { getMoveError, isInvited } from "@/lib/game-rules";
 import { useState } from "react";
 
 interface PlayGameProps {
   game: Game;
 }
 
-export function PlayGame({ game }: PlayGameProps) {
-  const { userData, handleJoinGame, handlePlayGame } = useStacks();
-  const [board, setBoard] = useState(game.board);
+export function PlayGame({ game: initialGame }: PlayGameProps) {
+  const address = useStacksAddress();
+  const { handleJoinGame, handlePlayGame } = useStacksActions();
+  const network = useNetwork();
+  const { transactions } = usePendingTransactions();
+  const { game: liveGame, isLive } = useGame(initialGame.id, initialGame);
   const [playedMoveIndex, setPlayedMoveIndex] = useState(-1);
-  if (!userData) return null;
+  // The analysis of the confirmed board, without the move that is selected but not played yet
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  if (!address) return null;
 
-  const isPlayerOne =
-    userData.profile.stxAddress.testnet === game["player-one"];
-  const isPlayerTwo =
-    userData.profile.stxAddress.testnet === game["player-two"];
+  const game = liveGame ?? initialGame;
+  const userAddress = address;
 
-  const isJoinable = game["player-two"] === null && !isPlayerOne;
+  const isPlayerOne = userAddress === game["player-one"];
+  const isPlayerTwo = userAddress === game["player-two"];
+
+  const isWaiting = game["player-two"] === null;
+  const isJoinable = isWaiting && !isPlayerOne && isInvited(game, userAddress);
   const isJoinedAlready = isPlayerOne || isPlayerTwo;
   const nextMove = game["is-player-one-turn"] ? Move.X : Move.O;
+  const isGameOver = isGameFinished(game);
   const isMyTurn =
-    (game["is-player-one-turn"] && isPlayerOne) ||
-    (!game["is-player-one-turn"] && isPlayerTwo);
-  const isGameOver = game.winner !== null;
+    !isGameOver &&
+    ((game["is-player-one-turn"] && isPlayerOne) ||
+      (!game["is-player-one-turn"] && isPlayerTwo));
+  const isDraw = game.status === "draw";
+
+  // The locally selected move is merged into the confirmed board as long as its cell
+  // is still free, e.g. it is dropped when the opponent took that cell in the meantime
+  const selectedMoveIndex =
+    !isGameOver &&
+    playedMoveIndex >= 0 &&
+    game.board[playedMoveIndex] === Move.EMPTY
+      ? playedMoveIndex
+      : -1;
+  const board =
+    selectedMoveIndex === -1
+      ? game.board
+      : game.board.map((cell, index) =>
+          index === selectedMoveIndex ? nextMove : cell
+        );
+
+  // Transactions are ordered newest first, only the latest one on this game is relevant
+  const latestTransaction = transactions.find((tx) => tx.gameId === game.id);
+  const failureMessage = latestTransaction
+    ? transactionFailureMessage(latestTransaction)
+    : null;
+
+  // Only cells where the contract would accept the move can be selected
+  function isCellPlayable(index: number) {
+    return (
+      (isJoinable || isMyTurn) &&
+      getMoveError(game, userAddress, index, nextMove) === null
+    );
+  }
 
   function onCellClick(index: number) {
-    const tempBoard = [...game.board];
-    tempBoard[index] = nextMove;
-    setBoard(tempBoard);
     setPlayedMoveIndex(index);
   }
 
@@ -42,6 +84,7 @@ export function PlayGame({ game }: PlayGameProps) {
       <GameBoard
         board={board}
         onCellClick={onCellClick}
+        isCellPlayable={isCellPlayable}
         nextMove={nextMove}
         cellClassName="size-32 text-6xl"
       />
@@ -49,13 +92,13 @@ export function PlayGame({ game }: PlayGameProps) {
       <div className="flex flex-col gap-2">
         <div className="flex items-center justify-between gap-2">
           <span className="text-gray-500">Bet Amount: </span>
-          <span>{formatStx(game["bet-amount"])} STX</span>
+          <span>{displayStx(game["bet-amount"])} STX</span>
         </div>
 
         <div className="flex items-center justify-between gap-2">
           <span className="text-gray-500">Player One: </span>
           <Link
-            href={explorerAddress(game["player-one"])}
+            href={explorerAddress(game["player-one"], network)}
             target="_blank"
             className="hover:underline"
           >
@@ -67,12 +110,20 @@ export function PlayGame({ game }: PlayGameProps) {
           <span className="text-gray-500">Player Two: </span>
           {game["player-two"] ? (
             <Link
-              href={explorerAddress(game["player-two"])}
+              href={explorerAddress(game["player-two"], network)}
               target="_blank"
               className="hover:underline"
             >
               {abbreviateAddress(game["player-two"])}
             </Link>
+          ) : game["invited-opponent"] ? (
+            <Link
+              href={explorerAddress(game["invited-opponent"], network)}
+              target="_blank"
+              className="hover:underline"
+            >
+              {abbreviateAddress(game["invited-opponent"])} (invited)
+            </Link>
           ) : (
             <span>Nobody</span>
           )}
@@ -82,7 +133,7 @@ export function PlayGame({ game }: PlayGameProps) {
           <div className="flex items-center justify-between gap-2">
             <span className="text-gray-500">Winner: </span>
             <Link
-              href={explorerAddress(game["winner"])}
+              href={explorerAddress(game["winner"], network)}
               target="_blank"
               className="hover:underline"
             >
@@ -90,20 +141,73 @@ export function PlayGame({ game }: PlayGameProps) {
             </Link>
           </div>
         )}
+
+        {isDraw && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-500">Result: </span>
+            <span>Draw</span>
+          </div>
+        )}
+
+        {getPayouts(game).map((payout) => (
+          <div
+            key={payout.player}
+            className="flex items-center justify-between gap-2"
+          >
+            <span className="text-gray-500">
+              {isDraw ? "Refunded to" : "Paid to"}{" "}
+              {abbreviateAddress(payout.player)}:
+            </span>
+            <span>{displayStx(payout.amount)} STX</span>
+          </div>
+        ))}
+
+        {!isGameOver && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-500">Updates: </span>
+            <span>{isLive ? "Live" : "Polling"}</span>
+          </div>
+        )}
       </div>
 
+      {!isGameOver && (
+        <button
+          type="button"
+          onClick={() => setShowAnalysis(!showAnalysis)}
+          className="self-start text-sm text-gray-500 hover:text-gray-300"
+        >
+          {showAnalysis ? "Hide analysis" : "Show analysis"}
+        </button>
+      )}
+
+      {showAnalysis && !isGameOver && (
+        <GameAnalysis board={game.board} nextMove={nextMove} />
+      )}
+
+      {failureMessage && (
+        <div className="border border-red-600 rounded p-2 text-sm text-red-500">
+          Your last move failed: {failureMessage}
+        </div>
+      )}
+
       {isJoinable && (
         <button
-          onClick={() => handleJoinGame(game.id, playedMoveIndex, nextMove)}
+          onClick={() => handleJoinGame(game, selectedMoveIndex, nextMove)}
           className="bg-blue-500 text-white px-4 py-2 rounded"
         >
           Join Game
         </button>
       )}
 
+      {isWaiting && !isPlayerOne && !isJoinable && (
+        <div className="text-gray-500">
+          This game is a challenge for another player.
+        </div>
+      )}
+
       {isMyTurn && (
         <button
-          onClick={() => handlePlayGame(game.id, playedMoveIndex, nextMove)}
+          onClick={() => handlePlayGame(game, selectedMoveIndex, nextMove)}
           className="bg-blue-500 text-white px-4 py-2 rounded"
         >
           Play
@@ -115,4 +219,4 @@ export function PlayGame({ game }: PlayGameProps) {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+import { displayStx } from "@/lib/amount";
+import { getGameOutcome, GameOutcome, PlayerStats } from "@/lib/player-stats";
+import { abbreviateAddress, explorerAddress } from "@/lib/stx-utils";
+import Link from "next/link";
+import { GameBoard } from "./game-board";
+
+// Number of games shown as thumbnails
+const RECENT_GAMES_COUNT = 12;
+
+const OUTCOME_LABELS: Record<GameOutcome, string> = {
+  win: "Won",
+  loss: "Lost",
+  draw: "Draw",
+};
+
+const STREAK_LABELS: Record<GameOutcome, string> = {
+  win: "wins",
+  loss: "losses",
+  draw: "draws",
+};
+
+interface PlayerProfileProps {
+  address: string;
+  stats: PlayerStats;
+  // Ids of games that could not be loaded, the statistics leave them out
+  failedGameIds: number[];
+}
+
+export function PlayerProfile({
+  address,
+  stats,
+  failedGameIds,
+}: PlayerProfileProps) {
+  const recentGames = stats.games.slice(0, RECENT_GAMES_COUNT);
+  const netStxSign = stats.netStx > 0n ? "+" : "";
+
+  return (
+    <div className="w-full max-w-4xl space-y-12">
+      <div className="text-center">
+        <Link
+          href={explorerAddress(address)}
+          target="_blank"
+          className="text-gray-500 hover:underline"
+        >
+          {abbreviateAddress(address)}
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        {[
+          ["Games", stats.games.length],
+          ["Wins", stats.wins],
+          ["Losses", stats.losses],
+          ["Draws", stats.draws],
+          ["Net STX", `${netStxSign}${displayStx(stats.netStx)}`],
+          [
+            "Current Streak",
+            stats.streak
+              ? `${stats.streak.length} ${STREAK_LABELS[stats.streak.outcome]}`
+              : "-",
+          ],
+        ].map(([label, value]) => (
+          <div
+            key={label}
+            className="flex flex-col gap-1 border p-4 rounded-md border-gray-700 bg-gray-900"
+          >
+            <span className="text-sm text-gray-500">{label}</span>
+            <span className="text-2xl font-bold">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {failedGameIds.length > 0 && (
+        <div className="border border-yellow-600 rounded-lg p-4 text-sm text-yellow-500">
+          {failedGameIds.length} game{failedGameIds.length === 1 ? "" : "s"}{" "}
+          could not be loaded, the statistics may be incomplete
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-2xl font-bold mb-4">Recent Games</h2>
+        {recentGames.length === 0 ? (
+          <div className="text-center py-12 border rounded-lg">
+            <p className="text-gray-500">No games played yet</p>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-8">
+            {recentGames.map((game) => {
+              const outcome = getGameOutcome(game, address);
+              return (
+                <Link
+                  key={game.id}
+                  href={`/game/${game.id}`}
+                  className="shrink-0 flex flex-col gap-2 border p-4 rounded-md border-gray-700 bg-gray-900 w-fit"
+                >
+                  <GameBoard
+                    board={game.board}
+                    cellClassName="size-8 text-xl"
+                  />
+                  <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
+                    {displayStx(game["bet-amount"])} STX
+                  </div>
+                  <div className="text-md px-1 py-0.5 bg-gray-800 rounded text-center w-full">
+                    {outcome ? OUTCOME_LABELS[outcome] : "In Progress"}
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { EMPTY_BOARD, Move } from "@/lib/contract";
+import {
+  chooseMove,
+  DIFFICULTIES,
+  Difficulty,
+  getOpponent,
+  getTurn,
+  getWinner,
+  isGameOver,
+} from "@/lib/solver";
+import { useEffect, useState } from "react";
+import { GameBoard } from "./game-board";
+
+// Short pause before the computer moves, so its move does not appear together with the player's
+const COMPUTER_MOVE_DELAY = 500; // 0.5 seconds
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  perfect: "Perfect",
+};
+
+function describeResult(board: Move[], playerMove: Move) {
+  const winner = getWinner(board);
+  if (winner === playerMove) return "You won!";
+  if (winner !== null) return "The computer won";
+  if (isGameOver(board)) return "Draw";
+  return getTurn(board) === playerMove
+    ? "Your turn"
+    : "The computer is thinking...";
+}
+
+// A game against the computer that never leaves the browser, nothing is signed or sent
+export function PracticeGame() {
+  const [board, setBoard] = useState(EMPTY_BOARD);
+  const [playerMove, setPlayerMove] = useState(Move.X);
+  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
+
+  const isOver = isGameOver(board);
+  const isPlayerTurn = !isOver && getTurn(board) === playerMove;
+
+  useEffect(() => {
+    if (isOver || isPlayerTurn) return;
+    const timer = setTimeout(() => {
+      const index = chooseMove(board, difficulty);
+      setBoard(board.map((cell, i) => (i === index ? getTurn(board) : cell)));
+    }, COMPUTER_MOVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [board, difficulty, isOver, isPlayerTurn]);
+
+  function onCellClick(index: number) {
+    setBoard(board.map((cell, i) => (i === index ? playerMove : cell)));
+  }
+
+  // Changing sides or difficulty starts a new game
+  function restart(move = playerMove, level = difficulty) {
+    setPlayerMove(move);
+    setDifficulty(level);
+    setBoard(EMPTY_BOARD);
+  }
+
+  return (
+    <div className="flex flex-col gap-4 w-[400px]">
+      <GameBoard
+        board={board}
+        onCellClick={onCellClick}
+        isCellPlayable={(index) => isPlayerTurn && board[index] === Move.EMPTY}
+        nextMove={playerMove}
+        cellClassName="size-32 text-6xl"
+      />
+
+      <div className="text-center text-lg font-bold">
+        {describeResult(board, playerMove)}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-500">Difficulty: </span>
+        <div className="flex gap-2">
+          {DIFFICULTIES.map((level) => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => restart(playerMove, level)}
+              className={
+                "rounded px-3 py-1 text-sm text-white " +
+                (level === difficulty
+                  ? "bg-blue-500"
+                  : "bg-gray-700 hover:bg-gray-600")
+              }
+            >
+              {DIFFICULTY_LABELS[level]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-500">You play: </span>
+        <span>
+          {playerMove === Move.X
+            ? "X, you move first"
+            : "O, the computer moves first"}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => restart()}
+          className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600"
+        >
+          New Game
+        </button>
+        <button
+          type="button"
+          onClick={() => restart(getOpponent(playerMove))}
+          className="rounded bg-gray-700 px-4 py-2 text-white hover:bg-gray-600"
+        >
+          Switch Sides
+        </button>
+      </div>
+    </div>
+  );
+}
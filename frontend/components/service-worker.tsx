@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js, which keeps the app shell available offline. The build id in its URL
+// makes every build install a new worker with its own cache. Development builds are left alone
+// so a cached shell never hides changes.
+export function ServiceWorker() {
+  useEffect(() => {
+    if (
+      process.env.NODE_ENV !== "production" ||
+      !("serviceWorker" in navigator)
+    ) {
+      return;
+    }
+    navigator.serviceWorker
+      .register(`/sw.js?build=${process.env.NEXT_PUBLIC_BUILD_ID}`)
+      .catch((error) =>
+        console.error("Failed to register the service worker:", error)
+      );
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,66 @@
+"use client";
+
+function formatSyncTime(time: number) {
+  return new Date(time).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+}
+
+// Tells whether the games shown are current or what was stored at the last sync
+export function SyncStatus({
+  isOnline,
+  syncing,
+  syncError,
+  lastSyncedAt,
+  onRetry,
+}: {
+  isOnline: boolean;
+  syncing: boolean;
+  syncError: string | null;
+  lastSyncedAt: number | null;
+  onRetry: () => void;
+}) {
+  const storedGames = lastSyncedAt
+    ? `showing games as of ${formatSyncTime(lastSyncedAt)}`
+    : "no games stored yet";
+
+  if (!isOnline) {
+    return (
+      <div className="flex items-center gap-2 border border-yellow-600 rounded-lg px-4 py-2 text-sm text-yellow-500">
+        <span className="size-2 rounded-full bg-yellow-500" />
+        Offline, {storedGames}
+      </div>
+    );
+  }
+
+  if (syncError && !syncing) {
+    return (
+      <div className="flex items-center justify-between gap-4 border border-yellow-600 rounded-lg px-4 py-2 text-sm">
+        <span className="text-yellow-500">
+          Could not sync games ({syncError}), {storedGames}
+        </span>
+        <button
+          type="button"
+          onClick={onRetry}
+          className="rounded-lg bg-gray-700 px-4 py-2 font-medium text-white hover:bg-gray-600"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-500">
+      <span
+        className={`size-2 rounded-full ${syncing ? "bg-blue-500 animate-pulse" : "bg-green-500"}`}
+      />
+      {syncing
+        ? "Syncing games..."
+        : lastSyncedAt
+          ? `Last synced ${formatSyncTime(lastSyncedAt)}`
+          : "Not synced yet"}
+    </div>
+  );
+}
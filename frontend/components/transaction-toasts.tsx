@@ -0,0 +1,88 @@
+"use client";
+
+import { useNetwork } from "@/hooks/use-network";
+import {
+  usePendingTransactions,
+  useTransactionConfirmed,
+} from "@/hooks/use-pending-transactions";
+import { getGame } from "@/lib/contract";
+import { abbreviateTxnId, explorerTransaction } from "@/lib/stx-utils";
+import {
+  TrackedTransaction,
+  transactionFailureMessage,
+} from "@/lib/transactions";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+const FUNCTION_LABELS: Record<TrackedTransaction["functionName"], string> = {
+  "create-game": "Create game",
+  "join-game": "Join game",
+  play: "Play",
+};
+
+function statusLabel(transaction: TrackedTransaction) {
+  switch (transaction.status) {
+    case "pending":
+      return "Pending...";
+    case "success":
+      return "Confirmed";
+    default:
+      return `Failed: ${transactionFailureMessage(transaction)}`;
+  }
+}
+
+export function TransactionToasts() {
+  const { transactions, dismissTransaction } = usePendingTransactions();
+  const network = useNetwork();
+  const router = useRouter();
+
+  // Refresh the affected game once a transaction confirms, so the new board shows up
+  useTransactionConfirmed(async (transaction) => {
+    if (transaction.gameId !== null) {
+      await getGame(transaction.gameId, { refresh: true });
+    }
+    router.refresh();
+  });
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80">
+      {transactions.map((transaction) => (
+        <div
+          key={transaction.txId}
+          className={
+            "flex flex-col gap-1 rounded-lg border bg-gray-900 p-4 text-sm " +
+            (transaction.status === "pending"
+              ? "border-gray-600"
+              : transaction.status === "success"
+                ? "border-green-600"
+                : "border-red-600")
+          }
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-bold">
+              {FUNCTION_LABELS[transaction.functionName]}
+              {transaction.gameId !== null && ` #${transaction.gameId}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => dismissTransaction(transaction.txId)}
+              className="text-gray-500 hover:text-gray-300"
+            >
+              ✕
+            </button>
+          </div>
+          <span className="text-gray-400">{statusLabel(transaction)}</span>
+          <Link
+            href={explorerTransaction(transaction.txId, network)}
+            target="_blank"
+            className="text-blue-400 hover:underline"
+          >
+            {abbreviateTxnId(transaction.txId)}
+          </Link>
+        </div>
+      ))}
+    </div>
+  );
+}
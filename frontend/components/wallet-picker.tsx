@@ -0,0 +1,85 @@
+"use client";
+
+import { useWallet } from "@/hooks/use-wallet";
+import { useEffect, useState } from "react";
+
+// Lists the supported wallets, opened by every "Connect Wallet" button of the app
+export function WalletPicker() {
+  const { isPickerOpen, status, error, providers, connect, closePicker } =
+    useWallet();
+  // Extensions inject their providers into the page, so this is only known in the browser
+  const [installed, setInstalled] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    if (!isPickerOpen) return;
+    setInstalled(
+      Object.fromEntries(
+        providers.map((provider) => [provider.id, provider.isInstalled()])
+      )
+    );
+  }, [isPickerOpen, providers]);
+
+  if (!isPickerOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onClick={closePicker}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="wallet-picker-title"
+        className="flex flex-col gap-4 w-80 rounded-lg border border-gray-600 bg-gray-900 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="wallet-picker-title" className="text-xl font-bold">
+            Connect a wallet
+          </h2>
+          <button
+            type="button"
+            onClick={closePicker}
+            className="text-gray-500 hover:text-gray-300"
+            aria-label="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {providers.map((provider) =>
+          installed[provider.id] ? (
+            <button
+              key={provider.id}
+              type="button"
+              onClick={() => connect(provider.id)}
+              disabled={status === "connecting"}
+              className="flex items-center justify-between rounded-lg bg-gray-700 px-4 py-3 text-white hover:bg-gray-600 disabled:opacity-50"
+            >
+              <span>{provider.name}</span>
+              <span className="text-xs text-gray-400">Installed</span>
+            </button>
+          ) : (
+            <a
+              key={provider.id}
+              href={provider.installUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center justify-between rounded-lg border border-gray-700 px-4 py-3 text-gray-400 hover:text-gray-200"
+            >
+              <span>{provider.name}</span>
+              <span className="text-xs">Install</span>
+            </a>
+          )
+        )}
+
+        {status === "connecting" && (
+          <span className="text-sm text-gray-500">
+            Approve the connection in your wallet...
+          </span>
+        )}
+        {error && <span className="text-sm text-red-500">{error}</span>}
+      </div>
+    </div>
+  );
+}
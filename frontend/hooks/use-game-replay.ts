@@ -0,0 +1,36 @@
+import { getGameReplay, ReplayStep } from "@/lib/replay";
+import { useCallback, useEffect, useState } from "react";
+
+export function useGameReplay(gameId: number) {
+  const [steps, setSteps] = useState<ReplayStep[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getGameReplay(gameId)
+      .then((replay) => {
+        if (!cancelled) setSteps(replay);
+      })
+      .catch((_err) => {
+        const err = _err as Error;
+        console.error(`Failed to load the replay of game ${gameId}:`, err);
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, attempt]);
+
+  const retry = useCallback(() => setAttempt((current) => current + 1), []);
+
+  return { steps, loading, error, retry };
+}
@@ -0,0 +1,155 @@
+import { Game, getGame, isGameFinished, serializeGame } from "@/lib/contract";
+import { ApiTransaction, getTransactionGameId } from "@/lib/replay";
+import { subscribeToConfirmations } from "@/lib/transactions";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNetwork } from "./use-network";
+
+const BASE_POLL_INTERVAL = 5000; // 5 seconds
+const MAX_POLL_INTERVAL = 60000; // 1 minute
+
+function isSameGame(a: Game | null, b: Game | null) {
+  return (
+    JSON.stringify(a && serializeGame(a)) ===
+    JSON.stringify(b && serializeGame(b))
+  );
+}
+
+// Keeps a game up to date while it is being played. Updates are pushed through the Stacks API
+// websocket when it is reachable, polling with backoff covers the time it is not.
+// Polling stops once the game is finished since a finished game can never change.
+export function useGame(gameId: number, initialGame: Game | null = null) {
+  const network = useNetwork();
+  const [game, setGame] = useState(initialGame);
+  const [isLive, setIsLive] = useState(false);
+  const gameRef = useRef(game);
+  const isLiveRef = useRef(false);
+
+  const isFinished = game ? isGameFinished(game) : false;
+
+  // Returns whether the game changed. With bypassCache the server-side cache is skipped,
+  // which is only done when we know the game changed on chain.
+  const refresh = useCallback(
+    async ({ bypassCache = false } = {}) => {
+      const latest = await getGame(gameId, { refresh: bypassCache });
+      // getGame returns null on errors as well, keep showing the last known state then
+      if (!latest || isSameGame(latest, gameRef.current)) return false;
+
+      gameRef.current = latest;
+      setGame(latest);
+      return true;
+    },
+    [gameId]
+  );
+
+  // Poll the game, backing off while nothing changes and slowing down while the websocket is live
+  useEffect(() => {
+    if (isFinished) return;
+    let cancelled = false;
+    let interval = BASE_POLL_INTERVAL;
+    let timer: ReturnType<typeof setTimeout>;
+
+    function schedule() {
+      timer = setTimeout(
+        tick,
+        isLiveRef.current ? MAX_POLL_INTERVAL : interval
+      );
+    }
+
+    async function tick() {
+      const changed = await refresh();
+      if (cancelled) return;
+      interval = changed
+        ? BASE_POLL_INTERVAL
+        : Math.min(interval * 2, MAX_POLL_INTERVAL);
+      schedule();
+    }
+
+    if (!gameRef.current) tick();
+    else schedule();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isFinished, refresh]);
+
+  // Subscribe to transactions of the contract, reconnecting with backoff when the socket drops
+  useEffect(() => {
+    if (isFinished || typeof WebSocket === "undefined") return;
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let retryDelay = BASE_POLL_INTERVAL;
+    let retryTimer: ReturnType<typeof setTimeout>;
+
+    function setLive(live: boolean) {
+      isLiveRef.current = live;
+      setIsLive(live);
+    }
+
+    function connect() {
+      socket = new WebSocket(network.websocketUrl);
+
+      socket.onopen = () => {
+        retryDelay = BASE_POLL_INTERVAL;
+        setLive(true);
+        socket?.send(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: 1,
+            method: "subscribe",
+            params: {
+              event: "address_tx_update",
+              address: `${network.contractAddress}.${network.contractName}`,
+            },
+          })
+        );
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          if (
+            message.method === "address_tx_update" &&
+            message.params?.tx_status === "success"
+          ) {
+            // Only a transaction on this game is known to have changed it, for transactions on
+            // other games the cached game is checked like when polling
+            const transaction: ApiTransaction | undefined = message.params.tx;
+            refresh({
+              bypassCache:
+                !!transaction && getTransactionGameId(transaction) === gameId,
+            });
+          }
+        } catch (error) {
+          console.error("Failed to parse websocket message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setLive(false);
+        if (closed) return;
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_POLL_INTERVAL);
+      };
+    }
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+      isLiveRef.current = false;
+    };
+  }, [gameId, isFinished, network, refresh]);
+
+  // Our own transactions on this game are tracked as well, refresh as soon as one confirms
+  useEffect(
+    () =>
+      subscribeToConfirmations((transaction) => {
+        if (transaction.gameId === gameId) refresh({ bypassCache: true });
+      }),
+    [gameId, refresh]
+  );
+
+  return { game, isLive, isFinished, refresh };
+}
@@ -0,0 +1,131 @@
+import { Game, getGames, getGamesPage } from "@/lib/contract";
+import { openGameStore, syncGames } from "@/lib/game-store";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useNetwork } from "./use-network";
+
+const SYNC_INTERVAL = 30000; // 30 seconds
+
+// Merge newly loaded games into the list, keeping it ordered newest first
+function mergeGames(current: Game[], loaded: Game[]) {
+  const byId = new Map(current.map((game) => [game.id, game]));
+  for (const game of loaded) byId.set(game.id, game);
+  return [...byId.values()].sort((a, b) => b.id - a.id);
+}
+
+function subscribeToOnlineStatus(listener: () => void) {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+// Whether the browser has a network connection, which does not mean the API is reachable
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    subscribeToOnlineStatus,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+// Games stored in the browser. They are available right away and synced in the background,
+// so the lobby stays filled while the API can not be reached. The unfinished games of player are
+// kept up to date however old they are.
+export function useGames(player: string | null = null) {
+  const network = useNetwork();
+  const store = useMemo(() => openGameStore(network.name), [network.name]);
+  const isOnline = useOnlineStatus();
+  const [games, setGames] = useState<Game[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const syncingRef = useRef(false);
+
+  // Games that were synced while the store was read are newer than the stored ones
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([store.getGames(), store.getLastSyncedAt()])
+      .then(([stored, storedLastSyncedAt]) => {
+        if (cancelled) return;
+        setGames((current) => mergeGames(stored, current));
+        setLastSyncedAt((current) => current ?? storedLastSyncedAt);
+      })
+      .catch((error) => console.error("Failed to read stored games:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    try {
+      const synced = await syncGames(store, {
+        loadPage: getGamesPage,
+        loadGames: getGames,
+        player,
+      });
+      const stored = await store.getGames();
+      setGames((current) => mergeGames(current, stored));
+      setLastSyncedAt(synced.lastSyncedAt);
+      setSyncError(null);
+    } catch (_err) {
+      const err = _err as Error;
+      console.error("Failed to sync games:", err);
+      setSyncError(err.message);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [store, player]);
+
+  // Keep games loaded elsewhere, e.g. a filtered page of the lobby, for when the API is down
+  const storeGames = useCallback(
+    async (loaded: Game[]) => {
+      setGames((current) => mergeGames(current, loaded));
+      try {
+        await store.putGames(loaded);
+      } catch (error) {
+        console.error("Failed to store games:", error);
+      }
+    },
+    [store]
+  );
+
+  // Sync on mount, when the connection comes back and every SYNC_INTERVAL while the page is seen
+  useEffect(() => {
+    sync();
+
+    const onOnline = () => sync();
+    window.addEventListener("online", onOnline);
+    const timer = setInterval(() => {
+      if (navigator.onLine && document.visibilityState === "visible") sync();
+    }, SYNC_INTERVAL);
+
+    return () => {
+      window.removeEventListener("online", onOnline);
+      clearInterval(timer);
+    };
+  }, [sync]);
+
+  return {
+    games,
+    isOnline,
+    syncing,
+    syncError,
+    lastSyncedAt,
+    sync,
+    storeGames,
+  };
+}
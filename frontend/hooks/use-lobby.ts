@@ -0,0 +1,139 @@
+import { Game } from "@/lib/contract";
+import {
+  DEFAULT_GAME_QUERY,
+  gameQueryToSearchParams,
+  GameQuery,
+  getGameQueryResult,
+  LobbyResult,
+  lobbyResultKey,
+  parseGameQueryOrDefault,
+  queryGames,
+} from "@/lib/game-query";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useGames } from "./use-games";
+import { useStacksAddress } from "./use-stacks";
+
+const CHALLENGES_QUERY: GameQuery = {
+  ...DEFAULT_GAME_QUERY,
+  status: "challenges",
+};
+
+// The lobby query is kept in the URL, so a filtered lobby can be shared and survives reloads.
+// Games are filtered by the games API. Until it answers, or when it can not be reached, the
+// query is applied to the games stored in the browser.
+export function useLobby(initialResult: LobbyResult | null) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const player = useStacksAddress();
+  const stored = useGames(player);
+  const [loaded, setLoaded] = useState(initialResult);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to load the current query again
+  const [reloads, setReloads] = useState(0);
+  const [loadedChallenges, setLoadedChallenges] = useState<{
+    player: string;
+    games: Game[];
+  } | null>(null);
+
+  const query = useMemo(
+    () => parseGameQueryOrDefault(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+  const key = lobbyResultKey(query, player);
+  const { isOnline, syncing, syncError, lastSyncedAt, sync, storeGames } =
+    stored;
+
+  // Load the query again whenever it changes and after every sync, which may have seen new moves
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    getGameQueryResult(query, player)
+      .then((result) => {
+        if (cancelled) return;
+        setLoaded({ key, result });
+        setError(null);
+        storeGames(result.games);
+      })
+      .catch((_err) => {
+        if (cancelled) return;
+        const err = _err as Error;
+        console.error("Failed to load games:", err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // key covers the query and the player
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, lastSyncedAt, reloads, storeGames]);
+
+  // Challenges for the player are shown above any query, so they are loaded on their own
+  useEffect(() => {
+    if (!player) return;
+    let cancelled = false;
+
+    getGameQueryResult(CHALLENGES_QUERY, player)
+      .then((result) => {
+        if (cancelled) return;
+        setLoadedChallenges({ player, games: result.games });
+        storeGames(result.games);
+      })
+      .catch((error) => console.error("Failed to load challenges:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [player, lastSyncedAt, reloads, storeGames]);
+
+  const storedResult = useMemo(
+    () => queryGames(stored.games, query, { player }),
+    [stored.games, query, player]
+  );
+  // The last result of the API for this query stays until a newer one is loaded
+  const isStoredResult = loaded?.key !== key;
+  const result = isStoredResult ? storedResult : loaded.result;
+  const challenges = useMemo(() => {
+    if (!player) return [];
+    if (loadedChallenges?.player === player) return loadedChallenges.games;
+    return queryGames(stored.games, CHALLENGES_QUERY, { player }).games;
+  }, [player, loadedChallenges, stored.games]);
+
+  // Changing a filter or the order starts over at the first page
+  const setQuery = useCallback(
+    (changes: Partial<GameQuery>) => {
+      const params = gameQueryToSearchParams({ ...query, page: 1, ...changes });
+      const search = params.toString();
+      router.replace(search ? `${pathname}?${search}` : pathname, {
+        scroll: false,
+      });
+    },
+    [pathname, query, router]
+  );
+
+  const reload = useCallback(() => setReloads((count) => count + 1), []);
+
+  return {
+    query,
+    setQuery,
+    player,
+    result,
+    isStoredResult,
+    challenges,
+    loading,
+    error,
+    reload,
+    isOnline,
+    syncing,
+    syncError,
+    lastSyncedAt,
+    sync,
+  };
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import { networkConfig, NetworkConfig } from "@/lib/network";
+import { createContext, useContext } from "react";
+
+const NetworkContext = createContext<NetworkConfig>(networkConfig);
+
+// Provides the network configured through NEXT_PUBLIC_STACKS_NETWORK. There is no override per
+// subtree: the lib modules and the API routes read networkConfig directly.
+export function NetworkProvider({ children }: { children: React.ReactNode }) {
+  return (
+    <NetworkContext.Provider value={networkConfig}>
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+export function useNetwork() {
+  return useContext(NetworkContext);
+}
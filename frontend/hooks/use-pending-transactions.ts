@@ -0,0 +1,46 @@
+import {
+  dismissTransaction,
+  getServerTransactions,
+  getTransactions,
+  isFinalStatus,
+  subscribeToConfirmations,
+  subscribeToTransactions,
+  TrackedTransaction,
+  trackTransaction,
+} from "@/lib/transactions";
+import { useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+
+export function usePendingTransactions() {
+  const transactions = useSyncExternalStore(
+    subscribeToTransactions,
+    getTransactions,
+    getServerTransactions
+  );
+
+  const pendingTransactions = useMemo(
+    () => transactions.filter((tx) => !isFinalStatus(tx.status)),
+    [transactions]
+  );
+
+  return {
+    transactions,
+    pendingTransactions,
+    trackTransaction,
+    dismissTransaction,
+  };
+}
+
+// Run a callback whenever a tracked transaction confirms, e.g. to refresh the affected game
+export function useTransactionConfirmed(
+  onConfirmed: (transaction: TrackedTransaction) => void
+) {
+  const callbackRef = useRef(onConfirmed);
+  useEffect(() => {
+    callbackRef.current = onConfirmed;
+  }, [onConfirmed]);
+
+  useEffect(
+    () => subscribeToConfirmations((tx) => callbackRef.current(tx)),
+    []
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { createNewGame, Game, joinGame, Move, play } from "@/lib/contract";
+import { buildPostConditions, GameContractCall } from "@/lib/post-conditions";
+import { GameFunctionName, trackTransaction } from "@/lib/transactions";
+import { MicroStx } from "@/lib/amount";
+import { ServedBalances } from "@/lib/balances";
+import { getBalances } from "@/lib/stx-utils";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useNetwork } from "./use-network";
+import { useTransactionConfirmed } from "./use-pending-transactions";
+import { useWallet } from "./use-wallet";
+
+type StacksAddress = {
+  address: string | null;
+};
+
+type StacksBalance = {
+  // Null while disconnected, before the first load and when loading failed
+  balances: ServedBalances | null;
+  balanceLoading: boolean;
+  balanceError: string | null;
+  refreshBalance: (options?: { refresh?: boolean }) => Promise<void>;
+};
+
+type StacksActions = {
+  connectWallet: () => void;
+  disconnectWallet: () => void;
+  handleCreateGame: (
+    betAmount: MicroStx,
+    moveIndex: number,
+    move: Move,
+    opponent?: string | null
+  ) => Promise<void>;
+  handleJoinGame: (game: Game, moveIndex: number, move: Move) => Promise<void>;
+  handlePlayGame: (game: Game, moveIndex: number, move: Move) => Promise<void>;
+};
+
+// Split in three, so e.g. a balance update does not re-render components that only need the address
+const AddressContext = createContext<StacksAddress | null>(null);
+const BalanceContext = createContext<StacksBalance | null>(null);
+const ActionsContext = createContext<StacksActions | null>(null);
+
+function useRequiredContext<T>(context: React.Context<T | null>) {
+  const value = useContext(context);
+  if (!value) {
+    throw new Error("Stacks hooks must be used inside StacksProvider");
+  }
+  return value;
+}
+
+// Holds the wallet address, its balances and the game actions once for the whole app
+export function StacksProvider({ children }: { children: React.ReactNode }) {
+  const network = useNetwork();
+  const { address, openPicker, disconnect, callContract } = useWallet();
+  const [balances, setBalances] = useState<ServedBalances | null>(null);
+  const [balanceLoading, setBalanceLoading] = useState(false);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+  // Responses for an address the user already switched away from are dropped
+  const balanceAddress = useRef(address);
+
+  const refreshBalance = useCallback(
+    async ({ refresh = false } = {}) => {
+      if (balanceAddress.current !== address) setBalances(null);
+      balanceAddress.current = address;
+      if (!address) {
+        setBalanceError(null);
+        return;
+      }
+      setBalanceLoading(true);
+      try {
+        const result = await getBalances(address, { refresh });
+        if (balanceAddress.current !== address) return;
+        setBalances(result);
+        setBalanceError(null);
+      } catch (error) {
+        console.error("Failed to fetch balances:", error);
+        if (balanceAddress.current !== address) return;
+        setBalances(null);
+        setBalanceError((error as Error).message);
+      } finally {
+        if (balanceAddress.current === address) setBalanceLoading(false);
+      }
+    },
+    [address]
+  );
+
+  useEffect(() => {
+    refreshBalance();
+  }, [refreshBalance]);
+
+  // Bets and payouts move STX, so the balances change whenever a game transaction confirms.
+  // The server cache does not know that yet, so it is bypassed.
+  useTransactionConfirmed(() => {
+    refreshBalance({ refresh: true });
+  });
+
+  const actions = useMemo<StacksActions>(() => {
+    // Sign the call with the connected wallet and track the transaction it broadcasts
+    async function submitGameCall(
+      call: GameContractCall,
+      gameId: number | null,
+      game?: Game
+    ) {
+      if (!address) throw new Error("User not connected");
+      const result = await callContract({
+        ...call,
+        ...buildPostConditions(call, address, game),
+        network: network.name,
+      });
+      if (result.status === "cancelled") {
+        window.alert("Transaction cancelled");
+        return;
+      }
+      trackTransaction({
+        txId: result.txId,
+        functionName: call.functionName as GameFunctionName,
+        gameId,
+      });
+    }
+
+    async function handleCreateGame(
+      betAmount: MicroStx,
+      moveIndex: number,
+      move: Move,
+      opponent: string | null = null
+    ) {
+      if (typeof window === "undefined") return;
+      if (moveIndex < 0 || moveIndex > 8) {
+        window.alert("Invalid move. Please make a valid move.");
+        return;
+      }
+      if (betAmount <= 0n) {
+        window.alert("Please make a bet");
+        return;
+      }
+
+      try {
+        const txOptions = await createNewGame(
+          betAmount,
+          moveIndex,
+          move,
+          opponent
+        );
+        await submitGameCall(txOptions, null);
+      } catch (_err) {
+        const err = _err as Error;
+        console.error(err);
+        window.alert(err.message);
+      }
+    }
+
+    async function handleJoinGame(game: Game, moveIndex: number, move: Move) {
+      if (typeof window === "undefined") return;
+      if (moveIndex < 0 || moveIndex > 8) {
+        window.alert("Invalid move. Please make a valid move.");
+        return;
+      }
+
+      try {
+        const txOptions = await joinGame(game.id, moveIndex, move);
+        await submitGameCall(txOptions, game.id, game);
+      } catch (_err) {
+        const err = _err as Error;
+        console.error(err);
+        window.alert(err.message);
+      }
+    }
+
+    async function handlePlayGame(game: Game, moveIndex: number, move: Move) {
+      if (typeof window === "undefined") return;
+      if (moveIndex < 0 || moveIndex > 8) {
+        window.alert("Invalid move. Please make a valid move.");
+        return;
+      }
+
+      try {
+        const txOptions = await play(game.id, moveIndex, move);
+        await submitGameCall(txOptions, game.id, game);
+      } catch (_err) {
+        const err = _err as Error;
+        console.error(err);
+        window.alert(err.message);
+      }
+    }
+
+    return {
+      connectWallet: openPicker,
+      disconnectWallet: disconnect,
+      handleCreateGame,
+      handleJoinGame,
+      handlePlayGame,
+    };
+  }, [address, network, callContract, openPicker, disconnect]);
+
+  const connection = useMemo(() => ({ address }), [address]);
+  const balance = useMemo(
+    () => ({ balances, balanceLoading, balanceError, refreshBalance }),
+    [balances, balanceLoading, balanceError, refreshBalance]
+  );
+
+  return (
+    <AddressContext.Provider value={connection}>
+      <BalanceContext.Provider value={balance}>
+        <ActionsContext.Provider value={actions}>
+          {children}
+        </ActionsContext.Provider>
+      </BalanceContext.Provider>
+    </AddressContext.Provider>
+  );
+}
+
+// Address of the connected wallet on the app's network, null while disconnected
+export function useStacksAddress() {
+  return useRequiredContext(AddressContext).address;
+}
+
+export function useBalances() {
+  return useRequiredContext(BalanceContext);
+}
+
+export function useStacksActions() {
+  return useRequiredContext(ActionsContext);
+}
+
+// Everything at once, for components that need most of it
+export function useStacks() {
+  return {
+    address: useStacksAddress(),
+    ...useBalances(),
+    ...useStacksActions(),
+  };
+}
@@ -0,0 +1,39 @@
+import {
+  createWalletStore,
+  DISCONNECTED_STATE,
+  findStxAddress,
+} from "@/lib/wallet";
+import { WALLET_PROVIDERS } from "@/lib/wallet-providers";
+import { useSyncExternalStore } from "react";
+import { useNetwork } from "./use-network";
+
+// One connection for the whole app, every component that uses the wallet sees the same state
+const walletStore = createWalletStore(
+  WALLET_PROVIDERS,
+  typeof window === "undefined" ? null : window.localStorage
+);
+
+export function useWallet() {
+  const network = useNetwork();
+  const state = useSyncExternalStore(
+    walletStore.subscribe,
+    walletStore.getState,
+    () => DISCONNECTED_STATE
+  );
+
+  return {
+    ...state,
+    // Address of the connected account on the network the app talks to
+    address:
+      state.status === "connected"
+        ? findStxAddress(state.addresses, network.name)
+        : null,
+    providers: walletStore.providers,
+    connect: (providerId: string) =>
+      walletStore.connect(providerId, network.name),
+    disconnect: walletStore.disconnect,
+    openPicker: walletStore.openPicker,
+    closePicker: walletStore.closePicker,
+    callContract: walletStore.callContract,
+  };
+}
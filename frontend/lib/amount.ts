@@ -0,0 +1,88 @@
+// STX amounts are handled as bigint microSTX everywhere, floats can not represent most decimal
+// amounts exactly, e.g. 0.1 * 10 ** 6 is 100000.00000000001.
+export type MicroStx = bigint;
+
+export const STX_DECIMALS = 6;
+export const MICRO_STX_PER_STX = 10n ** BigInt(STX_DECIMALS);
+
+const STX_AMOUNT_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+// Reason a human readable STX amount can not be parsed, null when it is valid
+export function getAmountError(value: string) {
+  const match = STX_AMOUNT_PATTERN.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) {
+    return "Enter a valid STX amount";
+  }
+  if ((match[2] ?? "").length > STX_DECIMALS) {
+    return `STX amounts have at most ${STX_DECIMALS} decimal places`;
+  }
+  return null;
+}
+
+// Convert a human readable STX amount like "0.1" to microSTX without any rounding
+export function parseStx(value: string): MicroStx {
+  const error = getAmountError(value);
+  if (error) throw new Error(error);
+
+  const [whole, fraction = ""] = value.trim().split(".");
+  return (
+    BigInt(whole || "0") * MICRO_STX_PER_STX +
+    BigInt(fraction.padEnd(STX_DECIMALS, "0"))
+  );
+}
+
+// Convert microSTX to the shortest exact STX amount, e.g. 100000n becomes "0.1"
+export function formatStx(amount: MicroStx) {
+  const sign = amount < 0n ? "-" : "";
+  const absolute = amount < 0n ? -amount : amount;
+  const whole = absolute / MICRO_STX_PER_STX;
+  const fraction = (absolute % MICRO_STX_PER_STX)
+    .toString()
+    .padStart(STX_DECIMALS, "0")
+    .replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+export type DisplayStxOptions = {
+  // Defaults to the locale of the runtime
+  locale?: string;
+  // Amounts are rounded half up to this many decimals, trailing zeros are dropped
+  maximumFractionDigits?: number;
+};
+
+// Format microSTX for display with the digit grouping and decimal separator of a locale
+export function displayStx(
+  amount: MicroStx,
+  { locale, maximumFractionDigits = STX_DECIMALS }: DisplayStxOptions = {}
+) {
+  const digits = Math.max(0, Math.min(STX_DECIMALS, maximumFractionDigits));
+  const scale = 10n ** BigInt(STX_DECIMALS - digits);
+  const absolute = amount < 0n ? -amount : amount;
+  const rounded = ((absolute + scale / 2n) / scale) * scale;
+
+  const format = new Intl.NumberFormat(locale);
+  const decimalSeparator =
+    format.formatToParts(1.5).find((part) => part.type === "decimal")?.value ??
+    ".";
+  const minusSign =
+    format.formatToParts(-1).find((part) => part.type === "minusSign")
+      ?.value ?? "-";
+
+  const whole = format.format(rounded / MICRO_STX_PER_STX);
+  const fraction = (rounded % MICRO_STX_PER_STX)
+    .toString()
+    .padStart(STX_DECIMALS, "0")
+    .slice(0, digits)
+    .replace(/0+$/, "");
+  const sign = amount < 0n && rounded > 0n ? minusSign : "";
+  return `${sign}${whole}${fraction ? `${decimalSeparator}${fraction}` : ""}`;
+}
+
+// Read a microSTX amount that was sent as a string (JSON has no bigint) or as a number
+export function toMicroStx(value: string | number | bigint): MicroStx {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`Invalid microSTX amount: ${value}`);
+  }
+}
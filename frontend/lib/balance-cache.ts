@@ -0,0 +1,39 @@
+// Server-side cache of account balances for the /api/balances route.
+// Do not import this module from client components.
+import {
+  Balances,
+  BalancesJson,
+  deserializeBalances,
+  fetchBalances,
+  serializeBalances,
+} from "./balances";
+import { createCache } from "./cache";
+import { networkConfig, NetworkConfig } from "./network";
+
+const balanceCache = createCache<Balances>({
+  name: "balances",
+  // Balances only change with a new block, which takes several seconds at least
+  ttlMs: 30000, // 30 seconds
+  staleWhileRevalidateMs: 30000, // 30 seconds
+  // When the Stacks API fails, balances this old are still better than none
+  staleIfErrorMs: 600000, // 10 minutes
+  serialize: serializeBalances,
+  deserialize: (data) => deserializeBalances(data as BalancesJson),
+});
+
+// With refresh the balances are always read again, e.g. after a transaction of the account
+// confirmed. Throws when the Stacks API fails and no recent balances are cached.
+export async function getCachedBalances(
+  address: string,
+  {
+    refresh = false,
+    config = networkConfig,
+  }: { refresh?: boolean; config?: NetworkConfig } = {}
+) {
+  const { value, stale, error } = await balanceCache.get(
+    `${config.apiUrl}/${address}`,
+    () => fetchBalances(address, config),
+    { refresh }
+  );
+  return { balances: value, stale, error };
+}
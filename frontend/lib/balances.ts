@@ -0,0 +1,242 @@
+// STX and SIP-010 token balances of an account. Locked STX (stacking) and locked tokens can not
+// be spent, so every balance is split into total, locked and available.
+import { Cl, cvToValue, fetchCallReadOnlyFunction } from "@stacks/transactions";
+import { formatStx, MicroStx } from "./amount";
+import {
+  ContractId,
+  contractPrincipal,
+  findContract,
+} from "./contract-registry";
+import { networkConfig, NetworkConfig } from "./network";
+
+export type Balance = {
+  total: bigint;
+  locked: bigint;
+  available: bigint;
+};
+
+export type TokenInfo = {
+  contractId: ContractId;
+  // Fully qualified contract principal on the network the balances were read from
+  principal: string;
+  symbol: string;
+  decimals: number;
+};
+
+// A token that could not be read reports its error instead of a balance of 0
+export type TokenBalance = TokenInfo &
+  ({ balance: Balance; error?: never } | { balance?: never; error: string });
+
+export type Balances = {
+  address: string;
+  // In microSTX
+  stx: Balance;
+  tokens: TokenBalance[];
+  // When the balances were read from the Stacks API, in milliseconds since the epoch
+  fetchedAt: number;
+};
+
+// Balances as served by /api/balances
+export type ServedBalances = Balances & {
+  // Set when the Stacks API failed and the last known balances are served instead
+  stale: boolean;
+  error?: string;
+};
+
+type BalanceJson = { total: string; locked: string; available: string };
+
+type TokenBalanceJson = TokenInfo &
+  ({ balance: BalanceJson } | { error: string });
+
+// Amounts are strings in JSON since they do not fit a JSON number
+export type BalancesJson = Omit<Balances, "stx" | "tokens"> & {
+  stx: BalanceJson;
+  tokens: TokenBalanceJson[];
+};
+
+// JSON shape of /api/balances
+export type ServedBalancesJson = BalancesJson & {
+  stale: boolean;
+  error?: string;
+};
+
+type TokenDefinition = Omit<TokenInfo, "principal"> &
+  (
+    | {
+        // Name of the define-fungible-token asset, its balance is listed by the Stacks API
+        asset: string;
+      }
+    | {
+        // Tokens that keep balances in a map are read through their read-only functions
+        availableFunction: string;
+        lockedFunction: string;
+      }
+  );
+
+// The SIP-010 tokens of this project, tokens not deployed on a network are left out
+export const TOKENS: TokenDefinition[] = [
+  {
+    contractId: "simple-token3",
+    symbol: "DDZ",
+    decimals: 6,
+    asset: "workshop-token",
+  },
+  {
+    contractId: "DaoToken",
+    symbol: "DAOGOV",
+    decimals: 6,
+    availableFunction: "get-available-tokens",
+    lockedFunction: "get-locked-tokens",
+  },
+];
+
+// Response of /extended/v1/address/{address}/balances, only the fields used here
+type ApiBalances = {
+  stx: { balance: string; locked: string };
+  fungible_tokens: Record<string, { balance: string }>;
+};
+
+function toBalance(total: bigint, locked: bigint): Balance {
+  // Locked amounts are part of the total, a token contract could still report more locked
+  // than owned
+  const available = total > locked ? total - locked : 0n;
+  return { total, locked, available };
+}
+
+// Reason an amount can not be paid from an STX balance, null when it can
+export function getStxBalanceError(amount: MicroStx, stx: Balance) {
+  if (amount <= stx.available) return null;
+  if (amount <= stx.total) {
+    return `Only ${formatStx(stx.available)} STX is available, ${formatStx(stx.locked)} STX is locked`;
+  }
+  return `Only ${formatStx(stx.available)} STX is available`;
+}
+
+async function readTokenBalance(
+  definition: TokenDefinition,
+  deployment: { address: string; name: string },
+  address: string,
+  api: ApiBalances,
+  config: NetworkConfig
+): Promise<Balance> {
+  if ("asset" in definition) {
+    // Accounts that never held the token are not listed
+    const held =
+      api.fungible_tokens[
+        `${contractPrincipal(deployment)}::${definition.asset}`
+      ];
+    return toBalance(BigInt(held?.balance ?? "0"), 0n);
+  }
+
+  const read = async (functionName: string) => {
+    const result = await fetchCallReadOnlyFunction({
+      contractAddress: deployment.address,
+      contractName: deployment.name,
+      functionName,
+      functionArgs: [Cl.principal(address)],
+      senderAddress: address,
+      network: config.network,
+    });
+    if (result.type !== "uint") {
+      throw new Error(`${functionName} returned a ${result.type}`);
+    }
+    return BigInt(cvToValue(result));
+  };
+  const [available, locked] = await Promise.all([
+    read(definition.availableFunction),
+    read(definition.lockedFunction),
+  ]);
+  return toBalance(available + locked, locked);
+}
+
+// Read the balances of an account. Throws when the STX balance can not be read, a token that
+// fails is reported with its error.
+export async function fetchBalances(
+  address: string,
+  config: NetworkConfig = networkConfig
+): Promise<Balances> {
+  const url = `${config.apiUrl}/extended/v1/address/${address}/balances`;
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Stacks API returned status ${response.status} for ${url}`);
+  }
+  const api: ApiBalances = await response.json();
+
+  const tokens = await Promise.all(
+    TOKENS.flatMap((definition) => {
+      const deployment = findContract(config.name, definition.contractId);
+      if (!deployment) return [];
+      const info: TokenInfo = {
+        contractId: definition.contractId,
+        principal: contractPrincipal(deployment),
+        symbol: definition.symbol,
+        decimals: definition.decimals,
+      };
+      return [
+        readTokenBalance(definition, deployment, address, api, config).then(
+          (balance): TokenBalance => ({ ...info, balance }),
+          (error): TokenBalance => {
+            console.error(
+              `Failed to read the ${definition.symbol} balance:`,
+              error
+            );
+            return { ...info, error: (error as Error).message };
+          }
+        ),
+      ];
+    })
+  );
+
+  return {
+    address,
+    stx: toBalance(BigInt(api.stx.balance), BigInt(api.stx.locked)),
+    tokens,
+    fetchedAt: Date.now(),
+  };
+}
+
+function serializeBalance(balance: Balance): BalanceJson {
+  return {
+    total: balance.total.toString(),
+    locked: balance.locked.toString(),
+    available: balance.available.toString(),
+  };
+}
+
+function deserializeBalance(balance: BalanceJson): Balance {
+  return {
+    total: BigInt(balance.total),
+    locked: BigInt(balance.locked),
+    available: BigInt(balance.available),
+  };
+}
+
+export function serializeBalances<T extends Balances>(
+  balances: T
+): Omit<T, "stx" | "tokens"> & Pick<BalancesJson, "stx" | "tokens"> {
+  return {
+    ...balances,
+    stx: serializeBalance(balances.stx),
+    tokens: balances.tokens.map((token) =>
+      token.error === undefined
+        ? { ...token, balance: serializeBalance(token.balance) }
+        : token
+    ),
+  };
+}
+
+export function deserializeBalances<T extends BalancesJson>(
+  json: T
+): Omit<T, "stx" | "tokens"> & Pick<Balances, "stx" | "tokens"> {
+  return {
+    ...json,
+    stx: deserializeBalance(json.stx),
+    tokens: json.tokens.map((token) =>
+      "balance" in token
+        ? { ...token, balance: deserializeBalance(token.balance) }
+        : token
+    ),
+  };
+}
@@ -0,0 +1,342 @@
+// Server-side caches of the API routes. A cache keeps its entries in a CacheStore: in memory by
+// default, or in files or a Redis-compatible REST service so they survive cold starts and are
+// shared between server instances. Do not import this module from client components.
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+export type CacheEntry = {
+  // JSON-compatible, caches serialize their values before storing them
+  value: unknown;
+  storedAt: number;
+};
+
+export type CacheStore = {
+  get: (key: string) => Promise<CacheEntry | null>;
+  // The entry may be dropped once ttlMs passed, Infinity keeps it until it is evicted
+  set: (key: string, entry: CacheEntry, ttlMs: number) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+// Least recently used entries are evicted once the store holds maxEntries
+export function createMemoryStore({
+  maxEntries = DEFAULT_MAX_ENTRIES,
+}: { maxEntries?: number } = {}): CacheStore {
+  const entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) return null;
+      entries.delete(key);
+      if (Date.now() >= stored.expiresAt) return null;
+      // Maps iterate in insertion order, re-inserting marks the entry as most recently used
+      entries.set(key, stored);
+      return stored.entry;
+    },
+    async set(key, entry, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// One JSON file per entry, e.g. for `next start` on a single machine. Expired entries are deleted
+// when they are read, and like in memory the least recently used entries are evicted beyond
+// maxEntries, going by the modification times of the files.
+export function createFileStore(
+  directory: string,
+  { maxEntries = DEFAULT_MAX_ENTRIES }: { maxEntries?: number } = {}
+): CacheStore {
+  const fileOf = (key: string) =>
+    path.join(
+      directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`
+    );
+
+  // Evicts down to 90% of maxEntries, so not every write past the cap lists and stats every file
+  async function evict() {
+    const names = (await readdir(directory)).filter((name) =>
+      name.endsWith(".json")
+    );
+    if (names.length <= maxEntries) return;
+
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(directory, name);
+        const stats = await stat(file).catch(() => null);
+        return { file, usedAt: stats?.mtimeMs ?? 0 };
+      })
+    );
+    files.sort((a, b) => a.usedAt - b.usedAt);
+    const excess = files.length - Math.floor(maxEntries * 0.9);
+    await Promise.all(
+      files.slice(0, excess).map(({ file }) => rm(file, { force: true }))
+    );
+  }
+
+  return {
+    async get(key) {
+      const file = fileOf(key);
+      try {
+        const { entry, expiresAt } = JSON.parse(await readFile(file, "utf8"));
+        // JSON has no Infinity, entries without expiry are stored with null
+        if (expiresAt !== null && Date.now() >= expiresAt) {
+          await rm(file, { force: true });
+          return null;
+        }
+        // Marks the entry as most recently used
+        const now = new Date();
+        await utimes(file, now, now).catch(() => {});
+        return entry;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Failed to read cache entry ${key}:`, error);
+        }
+        return null;
+      }
+    },
+    async set(key, entry, ttlMs) {
+      await mkdir(directory, { recursive: true });
+      const expiresAt = Number.isFinite(ttlMs) ? Date.now() + ttlMs : null;
+      await writeFile(fileOf(key), JSON.stringify({ entry, expiresAt }));
+      await evict();
+    },
+    async delete(key) {
+      await rm(fileOf(key), { force: true });
+    },
+  };
+}
+
+// Redis through the REST protocol of Upstash and compatible proxies: every command is POSTed as
+// a JSON array and answered with { result } or { error }
+export function createRedisStore({
+  url,
+  token,
+}: {
+  url: string;
+  token?: string;
+}): CacheStore {
+  async function command(...args: (string | number)[]) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(args),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data || data.error) {
+      throw new Error(
+        `Redis ${args[0]} failed: ${data?.error ?? `status ${response.status}`}`
+      );
+    }
+    return data.result;
+  }
+
+  return {
+    async get(key) {
+      const value: string | null = await command("GET", key);
+      return value === null ? null : JSON.parse(value);
+    },
+    async set(key, entry, ttlMs) {
+      const value = JSON.stringify(entry);
+      if (Number.isFinite(ttlMs)) {
+        await command("SET", key, value, "PX", Math.max(1, Math.ceil(ttlMs)));
+      } else {
+        await command("SET", key, value);
+      }
+    },
+    async delete(key) {
+      await command("DEL", key);
+    },
+  };
+}
+
+// The backend selected through CACHE_BACKEND, see the README
+function createConfiguredStore(maxEntries: number): CacheStore {
+  const backend = process.env.CACHE_BACKEND ?? "memory";
+  switch (backend) {
+    case "memory":
+      return createMemoryStore({ maxEntries });
+    case "file":
+      return createFileStore(
+        process.env.CACHE_DIR ?? path.join(process.cwd(), ".cache", "api"),
+        { maxEntries }
+      );
+    case "redis": {
+      const url = process.env.CACHE_REDIS_URL;
+      if (!url) throw new Error("CACHE_BACKEND=redis requires CACHE_REDIS_URL");
+      return createRedisStore({ url, token: process.env.CACHE_REDIS_TOKEN });
+    }
+    default:
+      throw new Error(
+        `Unknown CACHE_BACKEND "${backend}", expected memory, file or redis`
+      );
+  }
+}
+
+export type CacheOptions<T> = {
+  // Prefix of the keys, so caches can share a store
+  name: string;
+  // How long a value is fresh. A function can pick it per value, e.g. Infinity for values that
+  // never change, and 0 or less leaves the value out of the cache.
+  ttlMs: number | ((value: T) => number);
+  // After the value turned stale it is still served for this long while it is loaded again in
+  // the background
+  staleWhileRevalidateMs?: number;
+  // How long a stale value is served when loading it again fails
+  staleIfErrorMs?: number;
+  // Cap of the in-memory and file stores created from CACHE_BACKEND
+  maxEntries?: number;
+  store?: CacheStore;
+  // Convert values to JSON-compatible data and back, e.g. for bigints
+  serialize?: (value: T) => unknown;
+  deserialize?: (data: unknown) => T;
+};
+
+export type CacheResult<T> = {
+  value: T;
+  // The value is older than its TTL, either because it is being revalidated or because
+  // loading it failed, error says why
+  stale: boolean;
+  error?: string;
+};
+
+export type Cache<T> = ReturnType<typeof createCache<T>>;
+
+export function createCache<T>({
+  name,
+  ttlMs,
+  staleWhileRevalidateMs = 0,
+  staleIfErrorMs = 0,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  store,
+  serialize = (value) => value,
+  deserialize = (data) => data as T,
+}: CacheOptions<T>) {
+  // Created on first use, so a misconfigured backend fails the request instead of the import
+  let resolvedStore = store ?? null;
+  // Loads in progress, concurrent requests for the same key share them. Loads are numbered in
+  // the order they started, see load.
+  const inFlight = new Map<string, { promise: Promise<T>; number: number }>();
+  let loadCount = 0;
+
+  const getStore = () => (resolvedStore ??= createConfiguredStore(maxEntries));
+  const ttlOf = (value: T) =>
+    typeof ttlMs === "function" ? ttlMs(value) : ttlMs;
+
+  async function readEntry(key: string) {
+    try {
+      const entry = await getStore().get(`${name}:${key}`);
+      return (
+        entry && { value: deserialize(entry.value), storedAt: entry.storedAt }
+      );
+    } catch (error) {
+      console.error(`Failed to read ${name} cache entry ${key}:`, error);
+      return null;
+    }
+  }
+
+  async function writeEntry(key: string, value: T) {
+    const ttl = ttlOf(value);
+    if (ttl <= 0) return;
+    try {
+      await getStore().set(
+        `${name}:${key}`,
+        { value: serialize(value), storedAt: Date.now() },
+        ttl + Math.max(staleWhileRevalidateMs, staleIfErrorMs)
+      );
+    } catch (error) {
+      console.error(`Failed to write ${name} cache entry ${key}:`, error);
+    }
+  }
+
+  // A refresh only joins a load that started after the refresh arrived, when loadCount was
+  // arrivedAt. A load that started before it may miss the change the refresh is for.
+  function load(
+    key: string,
+    loader: () => Promise<T>,
+    arrivedAt: number | null
+  ) {
+    const pending = inFlight.get(key);
+    if (pending && (arrivedAt === null || pending.number > arrivedAt)) {
+      return pending.promise;
+    }
+
+    const promise = loader().then(async (value) => {
+      await writeEntry(key, value);
+      return value;
+    });
+    inFlight.set(key, { promise, number: ++loadCount });
+    const clear = () => {
+      if (inFlight.get(key)?.promise === promise) inFlight.delete(key);
+    };
+    promise.then(clear, clear);
+    return promise;
+  }
+
+  return {
+    // With refresh the value is always loaded again, e.g. after a transaction changed it.
+    // Throws when loading fails and no value recent enough for staleIfErrorMs is cached.
+    async get(
+      key: string,
+      loader: () => Promise<T>,
+      { refresh = false } = {}
+    ): Promise<CacheResult<T>> {
+      const arrivedAt = loadCount;
+      const cached = await readEntry(key);
+      const age = cached ? Date.now() - cached.storedAt : Infinity;
+      const ttl = cached ? ttlOf(cached.value) : 0;
+
+      if (cached && !refresh) {
+        if (age < ttl) return { value: cached.value, stale: false };
+        if (age < ttl + staleWhileRevalidateMs) {
+          load(key, loader, null).catch((error) =>
+            console.error(`Failed to revalidate ${name} ${key}:`, error)
+          );
+          return { value: cached.value, stale: true };
+        }
+      }
+
+      try {
+        return {
+          value: await load(key, loader, refresh ? arrivedAt : null),
+          stale: false,
+        };
+      } catch (error) {
+        if (!cached || age >= ttl + staleIfErrorMs) throw error;
+        console.error(
+          `Failed to load ${name} ${key}, serving it stale:`,
+          error
+        );
+        return {
+          value: cached.value,
+          stale: true,
+          error: (error as Error).message,
+        };
+      }
+    },
+
+    async delete(key: string) {
+      await getStore().delete(`${name}:${key}`);
+    },
+  };
+}
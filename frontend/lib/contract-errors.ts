@@ -0,0 +1,67 @@
+// Error codes of tictactoe/contracts/tic-tac-toe.clar. Keep this in sync with the ERR_*
+// constants of the contract, tests/contract-errors.test.ts fails when they drift apart.
+export const CONTRACT_ERRORS = {
+  ERR_MIN_BET_AMOUNT: {
+    code: 100,
+    message: "The bet amount must be greater than 0.",
+  },
+  ERR_INVALID_MOVE: {
+    code: 101,
+    message: "That move is not allowed, the cell may already be taken.",
+  },
+  ERR_GAME_NOT_FOUND: {
+    code: 102,
+    message: "This game does not exist.",
+  },
+  ERR_GAME_CANNOT_BE_JOINED: {
+    code: 103,
+    message: "This game already has a second player.",
+  },
+  ERR_NOT_YOUR_TURN: {
+    code: 104,
+    message: "It is not your turn, wait for your opponent to play.",
+  },
+  ERR_GAME_ALREADY_FINISHED: {
+    code: 105,
+    message: "This game is already finished.",
+  },
+  ERR_INSUFFICIENT_FUNDS: {
+    code: 106,
+    message: "Your balance is too low to cover the bet.",
+  },
+  ERR_CANNOT_JOIN_OWN_GAME: {
+    code: 107,
+    message: "You cannot join a game you created.",
+  },
+  ERR_NOT_INVITED: {
+    code: 108,
+    message: "This game is a challenge for another player.",
+  },
+  ERR_CANNOT_CHALLENGE_SELF: {
+    code: 109,
+    message: "You cannot challenge yourself, pick another player.",
+  },
+} as const;
+
+export type ContractErrorName = keyof typeof CONTRACT_ERRORS;
+
+export type ContractError = {
+  name: ContractErrorName;
+  code: number;
+  message: string;
+};
+
+export function getContractError(code: number): ContractError | null {
+  for (const [name, error] of Object.entries(CONTRACT_ERRORS)) {
+    if (error.code === code) {
+      return { name: name as ContractErrorName, ...error };
+    }
+  }
+  return null;
+}
+
+// Decode the tx_result repr of a failed transaction, e.g. "(err u104)"
+export function decodeContractError(repr: string | null): ContractError | null {
+  const match = repr?.match(/^\(err u(\d+)\)$/);
+  return match ? getContractError(parseInt(match[1])) : null;
+}
@@ -0,0 +1,123 @@
+// This file is generated by frontend/scripts/generate-contract-registry.mjs from the
+// Clarinet deployment plans. Do not edit it by hand, run `npm run contracts:generate` instead.
+
+export type RegistryNetwork = "devnet" | "testnet" | "mainnet";
+
+export type ContractId =
+  | "AccessControl"
+  | "counter"
+  | "DaoFactory"
+  | "DaoIntegration"
+  | "DaoToken"
+  | "Events"
+  | "Governed"
+  | "hello-world"
+  | "Multisig"
+  | "ProposalExecutor"
+  | "simple-token3"
+  | "tic-tac-toe"
+  | "Timelock"
+  | "Treasury"
+  | "VotingStrategy";
+
+export type ContractDeployment = {
+  address: string;
+  name: string;
+};
+
+export const CONTRACT_DEPLOYMENTS: Record<
+  RegistryNetwork,
+  Partial<Record<ContractId, ContractDeployment>>
+> = {
+  "devnet": {
+    "AccessControl": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "AccessControl"
+    },
+    "counter": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "counter"
+    },
+    "DaoFactory": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "DaoFactory"
+    },
+    "DaoIntegration": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "DaoIntegration"
+    },
+    "DaoToken": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "DaoToken"
+    },
+    "Events": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "Events"
+    },
+    "Governed": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "Governed"
+    },
+    "hello-world": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "hello-world"
+    },
+    "Multisig": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "Multisig"
+    },
+    "ProposalExecutor": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "ProposalExecutor"
+    },
+    "simple-token3": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "simple-token3"
+    },
+    "tic-tac-toe": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "tic-tac-toe"
+    },
+    "Timelock": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "Timelock"
+    },
+    "Treasury": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "Treasury"
+    },
+    "VotingStrategy": {
+      "address": "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      "name": "VotingStrategy"
+    }
+  },
+  "testnet": {
+    "simple-token3": {
+      "address": "ST2TG9G3H0WD4Q69CXZ5KW973RFX5XGHD54TGX5PR",
+      "name": "simple-token3"
+    },
+    "tic-tac-toe": {
+      "address": "ST2TG9G3H0WD4Q69CXZ5KW973RFX5XGHD54TGX5PR",
+      "name": "tic-tac-toe"
+    }
+  },
+  "mainnet": {}
+};
+
+// Returns the deployment of a contract, or null if it is not deployed on the network
+export function findContract(network: RegistryNetwork, contractId: ContractId) {
+  return CONTRACT_DEPLOYMENTS[network][contractId] ?? null;
+}
+
+export function getContract(network: RegistryNetwork, contractId: ContractId) {
+  const deployment = findContract(network, contractId);
+  if (!deployment) {
+    throw new Error(`${contractId} is not deployed on ${network}`);
+  }
+  return deployment;
+}
+
+// Fully qualified contract principal, e.g. ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.tic-tac-toe
+export function contractPrincipal(deployment: ContractDeployment) {
+  return `${deployment.address}.${deployment.name}`;
+}
@@ -0,0 +1,39 @@
+// Low-level reads of contract state. A map entry is read through the node's map_entry endpoint,
+// a single lookup that is much cheaper for the node than a read-only call evaluating Clarity.
+import { ClarityValue, deserializeCV, serializeCV } from "@stacks/transactions";
+import { networkConfig, NetworkConfig } from "./network";
+
+export type MapEntryRequest = {
+  contractAddress: string;
+  contractName: string;
+  mapName: string;
+  key: ClarityValue;
+};
+
+export type MapEntry = {
+  // An optional, none when the map has no entry for the key
+  value: ClarityValue;
+};
+
+export async function fetchMapEntry(
+  request: MapEntryRequest,
+  config: NetworkConfig = networkConfig
+): Promise<MapEntry> {
+  const { contractAddress, contractName, mapName, key } = request;
+  const url = `${config.apiUrl}/v2/map_entry/${contractAddress}/${contractName}/${mapName}?proof=0`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    // The key is sent as a JSON string of its hex serialization
+    body: JSON.stringify(`0x${serializeCV(key)}`),
+  });
+  if (!response.ok) {
+    throw new Error(`Stacks API returned status ${response.status} for ${url}`);
+  }
+
+  const { data }: { data: string } = await response.json();
+  return { value: deserializeCV(data) };
+}
@@ -1,18 +1,28 @@
-import { STACKS_TESTNET } from "@stacks/network";
 import {
   BooleanCV,
   cvToValue,
   fetchCallReadOnlyFunction,
   ListCV,
+  noneCV,
   OptionalCV,
   PrincipalCV,
+  ResponseCV,
+  someCV,
+  standardPrincipalCV,
+  StringAsciiCV,
   TupleCV,
   uintCV,
   UIntCV,
 } from "@stacks/transactions";
+import { MicroStx, toMicroStx } from "./amount";
+import { fetchMapEntry } from "./contract-state";
+import { getGameStatus, Move } from "./game-rules";
+import { isNetworkAddress, networkConfig, NetworkConfig } from "./network";
 
-const CONTRACT_ADDRESS = "ST2TG9G3H0WD4Q69CXZ5KW973RFX5XGHD54TGX5PR";
-const CONTRACT_NAME = "tic-tac-toe";
+export { EMPTY_BOARD, Move } from "./game-rules";
+
+const CONTRACT_ADDRESS = networkConfig.contractAddress;
+const CONTRACT_NAME = networkConfig.contractName;
 //0xcb6492b5bd17e9d28fe80325b53b9d35cec53925c605b71fac601499fdffe211
 type GameCV = {
   "player-one": PrincipalCV;
@@ -21,6 +31,25 @@ type GameCV = {
   "bet-amount": UIntCV;
   board: ListCV<UIntCV>;
   winner: OptionalCV<PrincipalCV>;
+  // Missing in games of contracts deployed before challenges were added
+  "invited-opponent"?: OptionalCV<PrincipalCV>;
+};
+
+type GameStatusCV = {
+  status: StringAsciiCV;
+  winner: OptionalCV<PrincipalCV>;
+  "total-prize": UIntCV;
+  "is-draw": BooleanCV;
+};
+
+export type GameStatus = "waiting" | "in-progress" | "won" | "draw";
+
+// Statuses returned by the get-game-status read only function
+const CONTRACT_GAME_STATUSES: Record<string, GameStatus> = {
+  "waiting-for-player": "waiting",
+  "in-progress": "in-progress",
+  finished: "won",
+  draw: "draw",
 };
 
 export type Game = {
@@ -28,28 +57,37 @@ export type Game = {
   "player-one": string;
   "player-two": string | null;
   "is-player-one-turn": boolean;
-  "bet-amount": number;
+  "bet-amount": MicroStx;
   board: number[];
   winner: string | null;
+  // The only player who can join, null for games anyone can join
+  "invited-opponent": string | null;
+  status: GameStatus;
 };
 
-export enum Move {
-  EMPTY = 0,
-  X = 1,
-  O = 2,
+// JSON can not hold a bigint, so the API routes send the bet amount as a string
+export type GameJson = Omit<Game, "bet-amount" | "invited-opponent"> & {
+  "bet-amount": string;
+  "invited-opponent"?: string | null;
+};
+
+export type Payout = {
+  player: string;
+  amount: MicroStx;
+};
+
+export function serializeGame(game: Game): GameJson {
+  return { ...game, "bet-amount": game["bet-amount"].toString() };
 }
 
-export const EMPTY_BOARD = [
-  Move.EMPTY,
-  Move.EMPTY,
-  Move.EMPTY,
-  Move.EMPTY,
-  Move.EMPTY,
-  Move.EMPTY,
-  Move.EMPTY,
-  Move.EMPTY,
-  Move.EMPTY,
-];
+// Games cached or indexed before challenges were added have no invited opponent
+export function deserializeGame(game: GameJson): Game {
+  return {
+    ...game,
+    "bet-amount": toMicroStx(game["bet-amount"]),
+    "invited-opponent": game["invited-opponent"] ?? null,
+  };
+}
 
 // Helper function to add delay between API calls
 function delay(ms: number) {
@@ -75,99 +113,445 @@ async function retryApiCall<T>(fn: () => Promise<T>, maxRetries = 3, baseDelay =
   throw new Error('Max retries reached');
 }
 
-export async function getAllGames() {
-  try {
-    // Fetch the latest-game-id from the contract with retry logic
-    const latestGameIdCV = await retryApiCall(async () => {
-      return (await fetchCallReadOnlyFunction({
-        contractAddress: CONTRACT_ADDRESS,
-        contractName: CONTRACT_NAME,
-        functionName: "get-latest-game-id",
-        functionArgs: [],
-        senderAddress: CONTRACT_ADDRESS,
-        network: STACKS_TESTNET,
-      })) as UIntCV;
-    });
+// The id of a game in a URL, null unless it is a decimal number. Number() alone also accepts
+// "" (0), "0x10" and "1e2", and parseInt() reads "1abc" as 1.
+export function parseGameId(value: string) {
+  if (!/^\d+$/.test(value)) return null;
+  const gameId = Number(value);
+  return Number.isSafeInteger(gameId) ? gameId : null;
+}
+
+// A won or drawn game can never change again
+export function isGameFinished(game: Game) {
+  return game.status === "won" || game.status === "draw";
+}
 
-    // Convert the uintCV to a JS/TS number type
-    const latestGameId = parseInt(latestGameIdCV.value.toString());
+// STX paid out by the contract once the game is over: the winner receives both bets,
+// a draw returns each player their own bet
+export function getPayouts(game: Game): Payout[] {
+  const betAmount = game["bet-amount"];
+  if (game.status === "won" && game.winner) {
+    return [{ player: game.winner, amount: 2n * betAmount }];
+  }
+  if (game.status === "draw" && game["player-two"]) {
+    return [
+      { player: game["player-one"], amount: betAmount },
+      { player: game["player-two"], amount: betAmount },
+    ];
+  }
+  return [];
+}
+
+// Maximum number of read-only calls that are in flight at the same time
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// Time budget for a single page request, games not started by then are left for the next page
+const PAGE_REQUEST_BUDGET_MS = 10000;
+
+// Number of games loaded per page when no limit is given
+export const GAMES_PAGE_SIZE = 12;
+
+// Upper bound for the number of games a single request to the games API can ask for
+export const MAX_GAMES_PER_REQUEST = 50;
+
+export type GamesPage = {
+  // Games of this page, newest first
+  games: Game[];
+  // Ids of games that could not be fetched, so the caller can retry them
+  failedGameIds: number[];
+  // Id of the newest game of the next (older) page, null once game 0 has been reached
+  nextCursor: number | null;
+};
 
-    // Loop from 0 to latestGameId-1 and fetch the game details for each game
-    const games: Game[] = [];
-    for (let i = 0; i < latestGameId; i++) {
+export type GamesResult = Omit<GamesPage, "nextCursor">;
+
+export type GamesPageJson = Omit<GamesPage, "games"> & { games: GameJson[] };
+export type GamesResultJson = Omit<GamesResult, "games"> & { games: GameJson[] };
+
+export function serializeGames<T extends GamesResult>(
+  result: T
+): Omit<T, "games"> & { games: GameJson[] } {
+  return { ...result, games: result.games.map(serializeGame) };
+}
+
+export function deserializeGames<T extends GamesResultJson>(
+  result: T
+): Omit<T, "games"> & { games: Game[] } {
+  return { ...result, games: result.games.map(deserializeGame) };
+}
+
+export type LoadGamesOptions = {
+  concurrency?: number;
+  budgetMs?: number;
+  // Override how a single game and the latest game id are loaded, e.g. to read through a cache
+  loadGame?: (gameId: number) => Promise<Game | null>;
+  loadLatestGameId?: () => Promise<number>;
+};
+
+export async function fetchLatestGameId() {
+  // Fetch the latest-game-id from the contract with retry logic
+  const latestGameIdCV = await retryApiCall(async () => {
+    return (await fetchCallReadOnlyFunction({
+      contractAddress: CONTRACT_ADDRESS,
+      contractName: CONTRACT_NAME,
+      functionName: "get-latest-game-id",
+      functionArgs: [],
+      senderAddress: CONTRACT_ADDRESS,
+      network: networkConfig.network,
+    })) as UIntCV;
+  });
+
+  // Convert the uintCV to a JS/TS number type
+  return parseInt(latestGameIdCV.value.toString());
+}
+
+// Fetch the given games through a bounded pool of workers. Ids are started in order,
+// so when the budget runs out the ids that were never started form a tail of the list.
+async function loadGames(gameIds: number[], options: LoadGamesOptions = {}) {
+  const {
+    concurrency = MAX_CONCURRENT_REQUESTS,
+    budgetMs = PAGE_REQUEST_BUDGET_MS,
+    loadGame = fetchGame,
+  } = options;
+  const deadline = Date.now() + budgetMs;
+  const results: (Game | null)[] = [];
+  const failedGameIds: number[] = [];
+  let startedCount = 0;
+
+  async function worker() {
+    while (startedCount < gameIds.length && Date.now() < deadline) {
+      const index = startedCount++;
+      const gameId = gameIds[index];
       try {
-        const game = await getGame(i);
-        if (game) games.push(game);
-        // Add a small delay between requests to avoid rate limiting
-        if (i < latestGameId - 1) {
-          await delay(200); // 200ms delay between requests
-        }
-      } catch (error: any) {
-        console.error(`Failed to fetch game ${i}:`, error);
-        // Continue with next game instead of failing completely
+        results[index] = await loadGame(gameId);
+      } catch (error) {
+        console.error(`Failed to fetch game ${gameId}:`, error);
+        failedGameIds.push(gameId);
       }
     }
-    return games;
-  } catch (error: any) {
-    console.error('Failed to fetch games:', error);
-    // Return empty array instead of throwing to prevent app crash
-    return [];
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, gameIds.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return {
+    games: results.filter((game): game is Game => !!game),
+    failedGameIds: failedGameIds.sort((a, b) => b - a),
+    startedCount,
+  };
+}
+
+// Load a page of games from the chain, newest first, starting at the game id given by the cursor.
+// A null cursor starts at the most recently created game.
+export async function fetchGamesPage(
+  cursor: number | null = null,
+  limit = GAMES_PAGE_SIZE,
+  options: LoadGamesOptions = {}
+): Promise<GamesPage> {
+  const { loadLatestGameId = fetchLatestGameId } = options;
+  const firstGameId = cursor ?? (await loadLatestGameId()) - 1;
+  if (firstGameId < 0 || limit <= 0) {
+    return { games: [], failedGameIds: [], nextCursor: null };
+  }
+
+  const gameIds: number[] = [];
+  for (let i = firstGameId; i >= 0 && gameIds.length < limit; i--) {
+    gameIds.push(i);
+  }
+
+  const { games, failedGameIds, startedCount } = await loadGames(
+    gameIds,
+    options
+  );
+  const nextCursor = firstGameId - startedCount;
+
+  return {
+    games,
+    failedGameIds,
+    nextCursor: nextCursor >= 0 ? nextCursor : null,
+  };
+}
+
+// Fetch specific games from the chain, e.g. the failedGameIds of an earlier page
+export async function fetchGames(
+  gameIds: number[],
+  options: LoadGamesOptions = {}
+): Promise<GamesResult> {
+  const { games, failedGameIds, startedCount } = await loadGames(
+    gameIds,
+    options
+  );
+  // Ids that were never started because of the budget count as failed here
+  return {
+    games,
+    failedGameIds: [...failedGameIds, ...gameIds.slice(startedCount)],
+  };
+}
+
+function callGameReadOnly(
+  functionName: string,
+  gameId: number,
+  config: NetworkConfig
+) {
+  return retryApiCall(async () => {
+    return await fetchCallReadOnlyFunction({
+      contractAddress: config.contractAddress,
+      contractName: config.contractName,
+      functionName,
+      functionArgs: [uintCV(gameId)],
+      senderAddress: config.contractAddress,
+      network: config.network,
+    });
+  });
+}
+
+function decodeGame(
+  gameId: number,
+  gameCV: GameCV,
+  getStatus: (game: Omit<Game, "status">) => GameStatus
+): Game {
+  const game = {
+    id: gameId,
+    "player-one": gameCV["player-one"].value,
+    "player-two":
+      gameCV["player-two"].type === "some"
+        ? gameCV["player-two"].value.value
+        : null,
+    "is-player-one-turn": cvToValue(gameCV["is-player-one-turn"]),
+    "bet-amount": BigInt(gameCV["bet-amount"].value),
+    board: gameCV["board"].value.map((cell) => parseInt(cell.value.toString())),
+    winner:
+      gameCV["winner"].type === "some" ? gameCV["winner"].value.value : null,
+    "invited-opponent":
+      gameCV["invited-opponent"]?.type === "some"
+        ? gameCV["invited-opponent"].value.value
+        : null,
+  };
+  return { ...game, status: getStatus(game) };
+}
+
+// Read a game straight from the games map with one map_entry request. The status is derived
+// the way get-game-status does it.
+export async function fetchGameFromMap(
+  gameId: number,
+  config: NetworkConfig = networkConfig
+) {
+  const { value } = await retryApiCall(() =>
+    fetchMapEntry(
+      {
+        contractAddress: config.contractAddress,
+        contractName: config.contractName,
+        mapName: "games",
+        key: uintCV(gameId),
+      },
+      config
+    )
+  );
+
+  const entryCV = value as OptionalCV<TupleCV<GameCV>>;
+  if (entryCV.type === "none") return null;
+  if (entryCV.type !== "some" || entryCV.value.type !== "tuple") {
+    throw new Error(`Unexpected games entry for game ${gameId}`);
+  }
+  return decodeGame(gameId, entryCV.value.value, getGameStatus);
+}
+
+// Read a game through the get-game and get-game-status read-only functions, two calls that
+// each evaluate Clarity on the node
+export async function fetchGameFromReadOnly(
+  gameId: number,
+  config: NetworkConfig = networkConfig
+) {
+  const [gameDetails, statusDetails] = await Promise.all([
+    callGameReadOnly("get-game", gameId, config),
+    callGameReadOnly("get-game-status", gameId, config),
+  ]);
+
+  const responseCV = gameDetails as OptionalCV<TupleCV<GameCV>>;
+  // If we get back a none, then the game does not exist and we return null
+  if (responseCV.type === "none") return null;
+  // If we get back a value that is not a tuple, something went wrong and we return null
+  if (responseCV.value.type !== "tuple") return null;
+
+  const statusCV = statusDetails as ResponseCV;
+  if (statusCV.type !== "ok" || statusCV.value.type !== "tuple") {
+    throw new Error(`get-game-status failed for game ${gameId}`);
+  }
+  const contractStatus = (statusCV.value as TupleCV<GameStatusCV>).value.status
+    .value;
+  const status = CONTRACT_GAME_STATUSES[contractStatus];
+  if (!status) {
+    throw new Error(`Unknown status ${contractStatus} for game ${gameId}`);
+  }
+
+  // If we got back a GameCV tuple, we can convert it to a Game object
+  return decodeGame(gameId, responseCV.value.value, () => status);
+}
+
+// How long a node that answered map_entry with a 404 or 405 is read through the read-only
+// functions before map_entry is tried again, so one bad answer of a proxy does not stick
+const MAP_ENTRY_RETRY_MS = 5 * 60 * 1000; // 5 minutes
+
+// API urls of the nodes that did not serve map_entry, with when to try it again.
+// lib/cache is server-only and this module is also used in the browser, hence a plain Map.
+const mapEntryUnsupportedUntil = new Map<string, number>();
+
+// Fetch a single game, returns null if the game does not exist and throws if the call fails.
+// Nodes that do not serve map_entry, e.g. behind a proxy that only allows read-only calls,
+// are read through the read-only functions instead, without trying map_entry again for a while.
+export async function fetchGame(
+  gameId: number,
+  config: NetworkConfig = networkConfig
+) {
+  const retryAt = mapEntryUnsupportedUntil.get(config.apiUrl);
+  if (retryAt !== undefined) {
+    if (Date.now() < retryAt) return fetchGameFromReadOnly(gameId, config);
+    mapEntryUnsupportedUntil.delete(config.apiUrl);
+  }
+  try {
+    return await fetchGameFromMap(gameId, config);
+  } catch (error) {
+    const message = (error as Error).message ?? "";
+    // Two more calls would only make a rate limit worse
+    if (message.includes("429")) throw error;
+    if (/status 40[45]\b/.test(message)) {
+      mapEntryUnsupportedUntil.set(
+        config.apiUrl,
+        Date.now() + MAP_ENTRY_RETRY_MS
+      );
+      console.error(
+        `${config.apiUrl} does not serve map_entry, reading games through get-game instead`
+      );
+    } else {
+      console.error(
+        `Failed to read game ${gameId} from the games map, calling get-game instead:`,
+        error
+      );
+    }
+    return fetchGameFromReadOnly(gameId, config);
   }
 }
 
-export async function getGame(gameId: number) {
+async function fetchGamesApi<T>(path: string): Promise<T> {
+  const response = await fetch(path, {
+    method: "GET",
+    headers: {
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Games API returned status ${response.status}`);
+  }
+  return response.json();
+}
+
+// The functions below are used by client components and read through the /api/games routes,
+// which share a server-side cache instead of hitting the Stacks API from every browser.
+
+export async function getGamesPage(
+  cursor: number | null = null,
+  limit = GAMES_PAGE_SIZE
+): Promise<GamesPage> {
+  const params = new URLSearchParams({ limit: limit.toString() });
+  if (cursor !== null) params.set("cursor", cursor.toString());
+  const page = await fetchGamesApi<GamesPageJson>(`/api/games?${params}`);
+  return deserializeGames(page);
+}
+
+export async function getGames(gameIds: number[]): Promise<GamesResult> {
+  const params = new URLSearchParams({ ids: gameIds.join(",") });
+  const result = await fetchGamesApi<GamesResultJson>(`/api/games?${params}`);
+  return deserializeGames(result);
+}
+
+// With refresh the server-side cache is bypassed, e.g. after a transaction on the game confirmed
+export async function getGame(gameId: number, { refresh = false } = {}) {
   try {
-    // Use the get-game read only function to fetch the game details for the given gameId with retry logic
-    const gameDetails = await retryApiCall(async () => {
-      return await fetchCallReadOnlyFunction({
-        contractAddress: CONTRACT_ADDRESS,
-        contractName: CONTRACT_NAME,
-        functionName: "get-game",
-        functionArgs: [uintCV(gameId)],
-        senderAddress: CONTRACT_ADDRESS,
-        network: STACKS_TESTNET,
-      });
+    const query = refresh ? "?refresh=1" : "";
+    const response = await fetch(`/api/games/${gameId}${query}`, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+      },
     });
+    // A 404 means the game does not exist
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Games API returned status ${response.status}`);
+    }
 
-    const responseCV = gameDetails as OptionalCV<TupleCV<GameCV>>;
-    // If we get back a none, then the game does not exist and we return null
-    if (responseCV.type === "none") return null;
-    // If we get back a value that is not a tuple, something went wrong and we return null
-    if (responseCV.value.type !== "tuple") return null;
-
-    // If we got back a GameCV tuple, we can convert it to a Game object
-    const gameCV = responseCV.value.value;
-
-    const game: Game = {
-      id: gameId,
-      "player-one": gameCV["player-one"].value,
-      "player-two":
-        gameCV["player-two"].type === "some"
-          ? gameCV["player-two"].value.value
-          : null,
-      "is-player-one-turn": cvToValue(gameCV["is-player-one-turn"]),
-      "bet-amount": parseInt(gameCV["bet-amount"].value.toString()),
-      board: gameCV["board"].value.map((cell) => parseInt(cell.value.toString())),
-      winner:
-        gameCV["winner"].type === "some" ? gameCV["winner"].value.value : null,
-    };
-    return game;
-  } catch (error: any) {
+    const data: { game: GameJson } = await response.json();
+    return deserializeGame(data.game);
+  } catch (error) {
     console.error(`Failed to fetch game ${gameId}:`, error);
     return null;
   }
 }
 
+type ContractInterface = {
+  functions: { name: string; args: unknown[] }[];
+};
+
+async function fetchSupportsChallenges(config: NetworkConfig) {
+  const url = `${config.apiUrl}/v2/contracts/interface/${config.contractAddress}/${config.contractName}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Stacks API returned status ${response.status} for ${url}`);
+  }
+  const contractInterface: ContractInterface = await response.json();
+  const createGame = contractInterface.functions.find(
+    (fn) => fn.name === "create-game"
+  );
+  if (!createGame) throw new Error("The contract has no create-game function");
+  return createGame.args.length === 4;
+}
+
+// Contracts deployed before challenges were added, like the testnet one, take three create-game
+// arguments. The answer is kept per contract, a failed lookup is tried again on the next call.
+const challengeSupport = new Map<string, Promise<boolean>>();
+
+export function supportsChallenges(config: NetworkConfig = networkConfig) {
+  const contractId = `${config.contractAddress}.${config.contractName}`;
+  let support = challengeSupport.get(contractId);
+  if (!support) {
+    support = fetchSupportsChallenges(config);
+    support.catch(() => challengeSupport.delete(contractId));
+    challengeSupport.set(contractId, support);
+  }
+  return support;
+}
+
+// Pass an opponent to create a challenge only that player can join. The opponent argument is
+// only sent to contracts that take it.
 export async function createNewGame(
-  betAmount: number,
+  betAmount: MicroStx,
   moveIndex: number,
-  move: Move
+  move: Move,
+  opponent: string | null = null,
+  config: NetworkConfig = networkConfig
 ) {
+  const withOpponent = await supportsChallenges(config);
+  if (opponent && !withOpponent) {
+    throw new Error("The deployed contract does not support challenges");
+  }
+  // Nobody could ever join a challenge for an address of another network
+  if (opponent && !isNetworkAddress(opponent, config.name)) {
+    throw new Error(`${opponent} is not a ${config.name} address`);
+  }
+
   const txOptions = {
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
+    contractAddress: config.contractAddress,
+    contractName: config.contractName,
     functionName: "create-game",
-    functionArgs: [uintCV(betAmount), uintCV(moveIndex), uintCV(move)],
+    functionArgs: [
+      uintCV(betAmount),
+      uintCV(moveIndex),
+      uintCV(move),
+      ...(withOpponent
+        ? [opponent ? someCV(standardPrincipalCV(opponent)) : noneCV()]
+        : []),
+    ],
   };
 
   return txOptions;
@@ -0,0 +1,262 @@
+// Server-side cache of decoded games, shared by the /api/games routes and server components.
+// Do not import this module from client components.
+import {
+  deserializeGame,
+  fetchGame,
+  fetchGames,
+  fetchGamesPage,
+  fetchLatestGameId,
+  Game,
+  GameJson,
+  GAMES_PAGE_SIZE,
+  GamesPage,
+  GamesResult,
+  isGameFinished,
+  LoadGamesOptions,
+  serializeGame,
+} from "./contract";
+import { createCache } from "./cache";
+import {
+  GameQuery,
+  GameQueryResult,
+  isListedFor,
+  isUnfilteredQuery,
+  queryGames,
+} from "./game-query";
+import { fetchIndexedGame, fetchIndexedGames, getIndexerUrl } from "./indexer";
+import {
+  deserializeReplay,
+  fetchGameActivity,
+  fetchGameReplay,
+  isReplayFinished,
+  ReplayStep,
+  ReplayStepJson,
+  serializeReplay,
+} from "./replay";
+
+// Games that are still being played can change with every block
+const IN_PROGRESS_CACHE_DURATION = 10000; // 10 seconds
+const LATEST_GAME_ID_CACHE_DURATION = 10000; // 10 seconds
+const GAME_ACTIVITY_CACHE_DURATION = 30000; // 30 seconds
+const IN_PROGRESS_REPLAY_CACHE_DURATION = 10000; // 10 seconds
+const INDEXED_GAMES_CACHE_DURATION = 10000; // 10 seconds
+// A short revalidation window, players poll their game and expect moves to show up quickly
+const STALE_WHILE_REVALIDATE_DURATION = 5000; // 5 seconds
+// How long games and the latest game id are still served when the contract can not be read
+const STALE_IF_ERROR_DURATION = 300000; // 5 minutes
+// Finished games never change, so the cache is large enough to keep all of them
+const MAX_CACHED_GAMES = 10000;
+// Page size used when every game is needed, e.g. for player statistics
+const ALL_GAMES_PAGE_SIZE = 50;
+
+const gameCache = createCache<Game | null>({
+  name: "games",
+  // Missing games are not cached since they can be created at any time
+  ttlMs: (game) =>
+    !game ? 0 : isGameFinished(game) ? Infinity : IN_PROGRESS_CACHE_DURATION,
+  staleWhileRevalidateMs: STALE_WHILE_REVALIDATE_DURATION,
+  staleIfErrorMs: STALE_IF_ERROR_DURATION,
+  maxEntries: MAX_CACHED_GAMES,
+  serialize: (game) => game && serializeGame(game),
+  deserialize: (data) => (data ? deserializeGame(data as GameJson) : null),
+});
+
+const latestGameIdCache = createCache<number>({
+  name: "latest-game-id",
+  ttlMs: LATEST_GAME_ID_CACHE_DURATION,
+  staleWhileRevalidateMs: STALE_WHILE_REVALIDATE_DURATION,
+  staleIfErrorMs: STALE_IF_ERROR_DURATION,
+});
+
+// Map keys are not JSON, the activity is stored as [gameId, blockHeight] pairs
+const gameActivityCache = createCache<Map<number, number>>({
+  name: "game-activity",
+  ttlMs: GAME_ACTIVITY_CACHE_DURATION,
+  staleWhileRevalidateMs: GAME_ACTIVITY_CACHE_DURATION,
+  staleIfErrorMs: STALE_IF_ERROR_DURATION,
+  serialize: (activity) => [...activity],
+  deserialize: (data) => new Map(data as [number, number][]),
+});
+
+// A replay walks the transactions of the contract back to the creation of the game, which takes
+// many Stacks API requests for older games. Replays of finished games never change.
+const gameReplayCache = createCache<ReplayStep[]>({
+  name: "game-replays",
+  ttlMs: (steps) =>
+    isReplayFinished(steps) ? Infinity : IN_PROGRESS_REPLAY_CACHE_DURATION,
+  staleWhileRevalidateMs: STALE_WHILE_REVALIDATE_DURATION,
+  staleIfErrorMs: STALE_IF_ERROR_DURATION,
+  maxEntries: MAX_CACHED_GAMES,
+  serialize: serializeReplay,
+  deserialize: (data) => deserializeReplay(data as ReplayStepJson[]),
+});
+
+// Every game as the indexer has them, so a lobby query reads one response instead of every game
+const indexedGamesCache = createCache<{
+  games: Game[];
+  activity: Map<number, number>;
+}>({
+  name: "indexed-games",
+  ttlMs: INDEXED_GAMES_CACHE_DURATION,
+  staleWhileRevalidateMs: INDEXED_GAMES_CACHE_DURATION,
+  serialize: ({ games, activity }) => ({
+    games: games.map(serializeGame),
+    activity: [...activity],
+  }),
+  deserialize: (data) => {
+    const { games, activity } = data as {
+      games: GameJson[];
+      activity: [number, number][];
+    };
+    return { games: games.map(deserializeGame), activity: new Map(activity) };
+  },
+});
+
+// Games the indexer does not know or can not serve are read from the contract instead
+async function fetchFromIndexer(gameId: number) {
+  const indexerUrl = getIndexerUrl();
+  if (!indexerUrl) return null;
+  try {
+    return await fetchIndexedGame(indexerUrl, gameId);
+  } catch (error) {
+    console.error(`Failed to fetch game ${gameId} from the indexer:`, error);
+    return null;
+  }
+}
+
+// With refresh the game is always fetched again from the contract, e.g. after a transaction
+// on it confirmed and before the indexer saw it
+export async function getCachedGame(gameId: number, { refresh = false } = {}) {
+  const { value } = await gameCache.get(
+    String(gameId),
+    async () =>
+      (!refresh && (await fetchFromIndexer(gameId))) ||
+      (await fetchGame(gameId)),
+    { refresh }
+  );
+  return value;
+}
+
+export async function getCachedLatestGameId() {
+  const { value } = await latestGameIdCache.get("latest", fetchLatestGameId);
+  return value;
+}
+
+const cachedLoadOptions: LoadGamesOptions = {
+  loadGame: getCachedGame,
+  loadLatestGameId: getCachedLatestGameId,
+};
+
+export function getCachedGamesPage(
+  cursor: number | null = null,
+  limit = GAMES_PAGE_SIZE
+) {
+  return fetchGamesPage(cursor, limit, cachedLoadOptions);
+}
+
+export function getCachedGames(gameIds: number[]) {
+  return fetchGames(gameIds, cachedLoadOptions);
+}
+
+// Every game, loaded page by page with the largest page size the games API allows.
+// Games that fail to load are reported instead of dropped.
+export async function getCachedAllGames(): Promise<GamesResult> {
+  const games: Game[] = [];
+  const failedGameIds: number[] = [];
+  let cursor: number | null = null;
+
+  do {
+    const page: GamesPage = await getCachedGamesPage(
+      cursor,
+      ALL_GAMES_PAGE_SIZE
+    );
+    games.push(...page.games);
+    failedGameIds.push(...page.failedGameIds);
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+
+  return { games, failedGameIds };
+}
+
+export async function getCachedGameActivity() {
+  const { value } = await gameActivityCache.get("latest", () =>
+    fetchGameActivity()
+  );
+  return value;
+}
+
+export async function getCachedGameReplay(gameId: number) {
+  const { value } = await gameReplayCache.get(String(gameId), () =>
+    fetchGameReplay(gameId)
+  );
+  return value;
+}
+
+// Null without an indexer or when it can not be reached, callers read the contract instead
+async function getCachedIndexedGames() {
+  const indexerUrl = getIndexerUrl();
+  if (!indexerUrl) return null;
+  try {
+    const { value } = await indexedGamesCache.get("all", () =>
+      fetchIndexedGames(indexerUrl)
+    );
+    return value;
+  } catch (error) {
+    console.error("Failed to fetch the games from the indexer:", error);
+    return null;
+  }
+}
+
+// A page of the games that match a query of the lobby. The newest games are read page by page,
+// any filter or other order needs every game. The indexer serves them in one response when
+// INDEXER_URL is set, otherwise they are read from the contract through the cache, which keeps
+// them once they are finished.
+export async function queryCachedGames(
+  query: GameQuery,
+  player: string | null = null,
+  pageSize = GAMES_PAGE_SIZE
+): Promise<GameQueryResult> {
+  if (isUnfilteredQuery(query)) {
+    const total = await getCachedLatestGameId();
+    const cursor = total - 1 - (query.page - 1) * pageSize;
+    const page =
+      cursor >= 0
+        ? await getCachedGamesPage(cursor, pageSize)
+        : { games: [], failedGameIds: [] };
+    // Challenges of other players are left out of the page, they still count towards the total
+    return {
+      games: page.games.filter((game) => isListedFor(game, player)),
+      failedGameIds: page.failedGameIds,
+      total,
+      page: query.page,
+      pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    };
+  }
+
+  const indexed = await getCachedIndexedGames();
+  if (indexed) {
+    return {
+      ...queryGames(indexed.games, query, {
+        player,
+        activity: indexed.activity,
+        pageSize,
+      }),
+      failedGameIds: [],
+    };
+  }
+
+  const [all, activity] = await Promise.all([
+    getCachedAllGames(),
+    // Without the activity games are ordered newest first
+    query.sort === "activity"
+      ? getCachedGameActivity().catch((error) => {
+          console.error("Failed to fetch the game activity:", error);
+          return undefined;
+        })
+      : undefined,
+  ]);
+  return {
+    ...queryGames(all.games, query, { player, activity, pageSize }),
+    failedGameIds: all.failedGameIds,
+  };
+}
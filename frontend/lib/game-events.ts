@@ -0,0 +1,96 @@
+// The print events of tictactoe/contracts/tic-tac-toe.clar, decoded the same way by the frontend
+// and by the indexer in ../indexer, which imports this module. Only types are imported, so the
+// indexer runs with its own @stacks/transactions: callers pass the value their hexToCV decoded.
+import type {
+  BooleanCV,
+  ClarityValue,
+  OptionalCV,
+  PrincipalCV,
+  StringAsciiCV,
+  TupleCV,
+  UIntCV,
+} from "@stacks/transactions";
+
+export type GameEvent =
+  | {
+      action: "create-game";
+      gameId: number;
+      player: string;
+      betAmount: bigint;
+      moveIndex: number;
+      invitedOpponent: string | null;
+    }
+  | {
+      action: "join-game";
+      gameId: number;
+      player: string;
+      moveIndex: number;
+    }
+  | {
+      action: "play";
+      gameId: number;
+      player: string;
+      moveIndex: number;
+      winner: string | null;
+      isDraw: boolean;
+    };
+
+function decodeUint(value: ClarityValue | undefined) {
+  if (value?.type !== "uint")
+    throw new Error(`Expected a uint, got ${value?.type}`);
+  return Number((value as UIntCV).value);
+}
+
+function decodePrincipal(value: ClarityValue | undefined) {
+  if (value?.type !== "address" && value?.type !== "contract") {
+    throw new Error(`Expected a principal, got ${value?.type}`);
+  }
+  return (value as PrincipalCV).value;
+}
+
+// Decode the payload of a print event, null for values that are not game events
+export function decodeGameEventValue(value: ClarityValue): GameEvent | null {
+  if (value.type !== "tuple") return null;
+  const data = (value as TupleCV).value;
+  if (data.action?.type !== "ascii") return null;
+
+  switch ((data.action as StringAsciiCV).value) {
+    case "create-game": {
+      // Missing in events of contracts deployed before challenges were added
+      const invitedOpponent = data["invited-opponent"] as
+        | OptionalCV<PrincipalCV>
+        | undefined;
+      return {
+        action: "create-game",
+        gameId: decodeUint(data["game-id"]),
+        player: decodePrincipal(data["player-one"]),
+        betAmount: BigInt((data["bet-amount"] as UIntCV).value),
+        moveIndex: decodeUint(data["first-move"]),
+        invitedOpponent:
+          invitedOpponent?.type === "some"
+            ? decodePrincipal(invitedOpponent.value)
+            : null,
+      };
+    }
+    case "join-game":
+      return {
+        action: "join-game",
+        gameId: decodeUint(data["game-id"]),
+        player: decodePrincipal(data["player-two"]),
+        moveIndex: decodeUint(data.move),
+      };
+    case "play": {
+      const winner = data.winner as OptionalCV<PrincipalCV>;
+      return {
+        action: "play",
+        gameId: decodeUint(data["game-id"]),
+        player: decodePrincipal(data.player),
+        moveIndex: decodeUint(data.move),
+        winner: winner.type === "some" ? decodePrincipal(winner.value) : null,
+        isDraw: (data["is-draw"] as BooleanCV).type === "true",
+      };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,298 @@
+// Filters, sorting and pages of the lobby. The same query is kept in the URL of the lobby,
+// sent to /api/games and applied to the games stored in the browser when the API can not be
+// reached, so it is parsed and matched here for both sides.
+import { formatStx, MicroStx, parseStx } from "./amount";
+import {
+  deserializeGames,
+  Game,
+  GameJson,
+  GAMES_PAGE_SIZE,
+  GamesResult,
+  isGameFinished,
+} from "./contract";
+
+export const GAME_STATUS_FILTERS = [
+  "all",
+  "joinable",
+  "challenges",
+  "mine",
+  "ended",
+  "drawn",
+] as const;
+export type GameStatusFilter = (typeof GAME_STATUS_FILTERS)[number];
+
+export const GAME_SORTS = ["newest", "bet", "activity"] as const;
+export type GameSort = (typeof GAME_SORTS)[number];
+
+export type GameQuery = {
+  status: GameStatusFilter;
+  // Bounds of the bet amount, inclusive
+  minBet: MicroStx | null;
+  maxBet: MicroStx | null;
+  // Part of the address of either player, e.g. to find the games against someone
+  opponent: string | null;
+  // Only games in progress in which the player is next
+  myTurn: boolean;
+  sort: GameSort;
+  // Starting at 1
+  page: number;
+};
+
+export const DEFAULT_GAME_QUERY: GameQuery = {
+  status: "all",
+  minBet: null,
+  maxBet: null,
+  opponent: null,
+  myTurn: false,
+  sort: "newest",
+  page: 1,
+};
+
+export type GameQueryResult = GamesResult & {
+  // Number of games that match the query, over all pages
+  total: number;
+  page: number;
+  pageCount: number;
+};
+
+// A result of the games API, together with the query and player it was loaded for
+export type LobbyResult = {
+  key: string;
+  result: GameQueryResult;
+};
+
+function parseBet(name: string, value: string | null) {
+  if (value === null || value === "") return null;
+  try {
+    return parseStx(value);
+  } catch {
+    throw new Error(`Invalid ${name} parameter`);
+  }
+}
+
+// Read a query from URL search params, bets are given in STX. Throws for invalid values.
+export function parseGameQuery(params: URLSearchParams): GameQuery {
+  const status = params.get("status") ?? DEFAULT_GAME_QUERY.status;
+  if (!GAME_STATUS_FILTERS.includes(status as GameStatusFilter)) {
+    throw new Error("Invalid status parameter");
+  }
+  const sort = params.get("sort") ?? DEFAULT_GAME_QUERY.sort;
+  if (!GAME_SORTS.includes(sort as GameSort)) {
+    throw new Error("Invalid sort parameter");
+  }
+  const page = Number(params.get("page") ?? DEFAULT_GAME_QUERY.page);
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error("Invalid page parameter");
+  }
+
+  return {
+    status: status as GameStatusFilter,
+    minBet: parseBet("minBet", params.get("minBet")),
+    maxBet: parseBet("maxBet", params.get("maxBet")),
+    opponent: params.get("opponent")?.trim().toUpperCase() || null,
+    myTurn: params.get("myTurn") === "1",
+    sort: sort as GameSort,
+    page,
+  };
+}
+
+// The lobby falls back to the default query instead of failing on a mistyped URL
+export function parseGameQueryOrDefault(params: URLSearchParams) {
+  try {
+    return parseGameQuery(params);
+  } catch {
+    return DEFAULT_GAME_QUERY;
+  }
+}
+
+// Search params of a query, default values are left out to keep URLs short
+export function gameQueryToSearchParams(query: GameQuery) {
+  const params = new URLSearchParams();
+  if (query.status !== DEFAULT_GAME_QUERY.status) {
+    params.set("status", query.status);
+  }
+  if (query.minBet !== null) params.set("minBet", formatStx(query.minBet));
+  if (query.maxBet !== null) params.set("maxBet", formatStx(query.maxBet));
+  if (query.opponent) params.set("opponent", query.opponent);
+  if (query.myTurn) params.set("myTurn", "1");
+  if (query.sort !== DEFAULT_GAME_QUERY.sort) params.set("sort", query.sort);
+  if (query.page !== DEFAULT_GAME_QUERY.page) {
+    params.set("page", query.page.toString());
+  }
+  return params;
+}
+
+export function lobbyResultKey(query: GameQuery, player: string | null) {
+  return `${gameQueryToSearchParams(query)}|${player ?? ""}`;
+}
+
+// Whether the query needs the address of the player to be matched
+export function isPersonalQuery(query: GameQuery) {
+  return (
+    query.status === "mine" || query.status === "challenges" || query.myTurn
+  );
+}
+
+// Whether the query only asks for the newest games, which are served without loading every game
+export function isUnfilteredQuery(query: GameQuery) {
+  return (
+    query.status === "all" &&
+    query.minBet === null &&
+    query.maxBet === null &&
+    query.opponent === null &&
+    !query.myTurn &&
+    query.sort === "newest"
+  );
+}
+
+export function isPlayerTurn(game: Game, player: string) {
+  if (game.status !== "in-progress") return false;
+  return game["is-player-one-turn"]
+    ? game["player-one"] === player
+    : game["player-two"] === player;
+}
+
+function isPlayer(game: Game, player: string) {
+  return game["player-one"] === player || game["player-two"] === player;
+}
+
+// Whether the game is a challenge for the player that has not been accepted yet
+export function isChallengeFor(game: Game, player: string) {
+  return game.status === "waiting" && game["invited-opponent"] === player;
+}
+
+// Challenges waiting for another player are only listed for the players of the challenge.
+// Once accepted they are listed like any other game.
+export function isListedFor(game: Game, player: string | null) {
+  if (game.status !== "waiting" || game["invited-opponent"] === null) {
+    return true;
+  }
+  return game["invited-opponent"] === player || game["player-one"] === player;
+}
+
+function matchesStatus(
+  game: Game,
+  status: GameStatusFilter,
+  player: string | null
+) {
+  switch (status) {
+    case "all":
+      return true;
+    // Games waiting for a second player that the player did not create
+    case "joinable":
+      return game.status === "waiting" && game["player-one"] !== player;
+    // Games created to be joined by the player only
+    case "challenges":
+      return !!player && isChallengeFor(game, player);
+    // Games of the player that are not finished yet
+    case "mine":
+      return !!player && isPlayer(game, player) && !isGameFinished(game);
+    case "ended":
+      return isGameFinished(game);
+    case "drawn":
+      return game.status === "draw";
+  }
+}
+
+// Personal filters match nothing without a player
+export function matchesGameQuery(
+  game: Game,
+  query: GameQuery,
+  player: string | null
+) {
+  if (!isListedFor(game, player)) return false;
+  if (!matchesStatus(game, query.status, player)) return false;
+  if (query.minBet !== null && game["bet-amount"] < query.minBet) return false;
+  if (query.maxBet !== null && game["bet-amount"] > query.maxBet) return false;
+  if (
+    query.opponent &&
+    !game["player-one"].includes(query.opponent) &&
+    !game["player-two"]?.includes(query.opponent)
+  ) {
+    return false;
+  }
+  if (query.myTurn && !(player && isPlayerTurn(game, player))) return false;
+  return true;
+}
+
+// Activity holds the block height of the last transaction of a game. Games without one are
+// ordered after those with one, newest first, like games with the same bet.
+export function sortGames(
+  games: Game[],
+  sort: GameSort,
+  activity: Map<number, number> = new Map()
+) {
+  const byNewest = (a: Game, b: Game) => b.id - a.id;
+  return [...games].sort((a, b) => {
+    switch (sort) {
+      case "newest":
+        return byNewest(a, b);
+      case "bet":
+        return b["bet-amount"] > a["bet-amount"]
+          ? 1
+          : b["bet-amount"] < a["bet-amount"]
+            ? -1
+            : byNewest(a, b);
+      case "activity":
+        return (
+          (activity.get(b.id) ?? -1) - (activity.get(a.id) ?? -1) ||
+          byNewest(a, b)
+        );
+    }
+  });
+}
+
+export type QueryGamesOptions = {
+  player?: string | null;
+  activity?: Map<number, number>;
+  pageSize?: number;
+};
+
+// Filter, sort and page a list of games
+export function queryGames(
+  games: Game[],
+  query: GameQuery,
+  {
+    player = null,
+    activity,
+    pageSize = GAMES_PAGE_SIZE,
+  }: QueryGamesOptions = {}
+): GameQueryResult {
+  const matching = sortGames(
+    games.filter((game) => matchesGameQuery(game, query, player)),
+    query.sort,
+    activity
+  );
+  const start = (query.page - 1) * pageSize;
+  return {
+    games: matching.slice(start, start + pageSize),
+    failedGameIds: [],
+    total: matching.length,
+    page: query.page,
+    pageCount: Math.max(1, Math.ceil(matching.length / pageSize)),
+  };
+}
+
+// Used by client components, the games API filters every game instead of only those the
+// browser has seen
+export async function getGameQueryResult(
+  query: GameQuery,
+  player: string | null
+): Promise<GameQueryResult> {
+  const params = gameQueryToSearchParams(query);
+  params.set("page", query.page.toString());
+  if (player) params.set("player", player);
+
+  const response = await fetch(`/api/games?${params}`, {
+    method: "GET",
+    headers: {
+      Accept: "application/json",
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Games API returned status ${response.status}`);
+  }
+  const result: Omit<GameQueryResult, "games"> & { games: GameJson[] } =
+    await response.json();
+  return deserializeGames(result);
+}
@@ -0,0 +1,186 @@
+// Client-side mirror of the rules in tictactoe/contracts/tic-tac-toe.clar, so illegal moves can be
+// rejected before a transaction is signed. This module has no runtime dependencies, which lets the
+// simnet tests of the contract import it and check that both implementations agree.
+import type { MicroStx } from "./amount";
+import type { Game, GameStatus } from "./contract";
+import type { ContractErrorName } from "./contract-errors";
+
+export enum Move {
+  EMPTY = 0,
+  X = 1,
+  O = 2,
+}
+
+export const EMPTY_BOARD = [
+  Move.EMPTY,
+  Move.EMPTY,
+  Move.EMPTY,
+  Move.EMPTY,
+  Move.EMPTY,
+  Move.EMPTY,
+  Move.EMPTY,
+  Move.EMPTY,
+  Move.EMPTY,
+];
+
+export const WINNING_LINES = [
+  // Horizontal rows
+  [0, 1, 2],
+  [3, 4, 5],
+  [6, 7, 8],
+  // Vertical columns
+  [0, 3, 6],
+  [1, 4, 7],
+  [2, 5, 8],
+  // Diagonal lines
+  [0, 4, 8],
+  [2, 4, 6],
+] as const;
+
+// The parts of a game the rules depend on
+export type GameState = Pick<
+  Game,
+  | "player-one"
+  | "player-two"
+  | "is-player-one-turn"
+  | "board"
+  | "winner"
+  | "invited-opponent"
+>;
+
+// validate-move: the index is on the board, the move is X or O and the cell is empty
+export function validateMove(board: number[], moveIndex: number, move: number) {
+  const indexInRange = moveIndex >= 0 && moveIndex < 9;
+  const validMove = move === Move.X || move === Move.O;
+  const emptySpot = board[moveIndex] === Move.EMPTY;
+  return indexInRange && validMove && emptySpot;
+}
+
+// is-line: three cells hold the same move and are not empty
+export function isLine(board: number[], a: number, b: number, c: number) {
+  return (
+    board[a] === board[b] && board[a] === board[c] && board[a] !== Move.EMPTY
+  );
+}
+
+// has-won: any of the winning lines is complete
+export function hasWon(board: number[]) {
+  return WINNING_LINES.some(([a, b, c]) => isLine(board, a, b, c));
+}
+
+// is-board-full-list: no empty cells are left
+export function isBoardFull(board: number[]) {
+  return board.every((cell) => cell !== Move.EMPTY);
+}
+
+// get-game-status: a winner ends the game, a game without a second player is still waiting
+// and a full board without a winner is a draw
+export function getGameStatus(game: GameState): GameStatus {
+  if (game.winner !== null) return "won";
+  if (game["player-two"] === null) return "waiting";
+  if (isBoardFull(game.board)) return "draw";
+  return "in-progress";
+}
+
+// The move the player whose turn it is has to play
+export function getNextMove(game: GameState) {
+  return game["is-player-one-turn"] ? Move.X : Move.O;
+}
+
+// replace-at? fails for an index past the end of the board
+function isOnBoard(moveIndex: number) {
+  return Number.isInteger(moveIndex) && moveIndex >= 0 && moveIndex < 9;
+}
+
+// Error create-game would abort with, the board starts out empty
+export function getCreateGameError(
+  betAmount: MicroStx,
+  moveIndex: number,
+  move: number,
+  player: string | null = null,
+  opponent: string | null = null
+): ContractErrorName | null {
+  if (!isOnBoard(moveIndex)) return "ERR_INVALID_MOVE";
+  if (betAmount <= 0n) return "ERR_MIN_BET_AMOUNT";
+  if (move !== Move.X) return "ERR_INVALID_MOVE";
+  if (!validateMove(EMPTY_BOARD, moveIndex, move)) return "ERR_INVALID_MOVE";
+  if (opponent && opponent === player) return "ERR_CANNOT_CHALLENGE_SELF";
+  return null;
+}
+
+// Whether the player may join the game, challenges can only be joined by the invited opponent
+export function isInvited(game: GameState, player: string) {
+  return (
+    game["invited-opponent"] === null || game["invited-opponent"] === player
+  );
+}
+
+// Error join-game would abort with, checked in the same order as the contract
+export function getJoinGameError(
+  game: GameState,
+  player: string,
+  moveIndex: number,
+  move: number
+): ContractErrorName | null {
+  if (!isOnBoard(moveIndex)) return "ERR_INVALID_MOVE";
+  if (game["player-two"] !== null) return "ERR_GAME_CANNOT_BE_JOINED";
+  if (game.winner !== null) return "ERR_GAME_ALREADY_FINISHED";
+  if (player === game["player-one"]) return "ERR_CANNOT_JOIN_OWN_GAME";
+  if (!isInvited(game, player)) return "ERR_NOT_INVITED";
+  if (move !== Move.O) return "ERR_INVALID_MOVE";
+  if (!validateMove(game.board, moveIndex, move)) return "ERR_INVALID_MOVE";
+  return null;
+}
+
+// Error play would abort with, checked in the same order as the contract
+export function getPlayError(
+  game: GameState,
+  player: string,
+  moveIndex: number,
+  move: number
+): ContractErrorName | null {
+  const currentPlayer = game["is-player-one-turn"]
+    ? game["player-one"]
+    : game["player-two"];
+  if (currentPlayer === null) return "ERR_GAME_NOT_FOUND";
+  if (!isOnBoard(moveIndex)) return "ERR_INVALID_MOVE";
+  if (player !== currentPlayer) return "ERR_NOT_YOUR_TURN";
+  if (game.winner !== null) return "ERR_GAME_ALREADY_FINISHED";
+  if (move !== getNextMove(game)) return "ERR_INVALID_MOVE";
+  if (!validateMove(game.board, moveIndex, move)) return "ERR_INVALID_MOVE";
+  return null;
+}
+
+// Error of the call the player would make: join-game while there is no second player, play otherwise
+export function getMoveError(
+  game: GameState,
+  player: string,
+  moveIndex: number,
+  move: number
+) {
+  return game["player-two"] === null
+    ? getJoinGameError(game, player, moveIndex, move)
+    : getPlayError(game, player, moveIndex, move);
+}
+
+// State of the game after a legal join-game or play, like the contract stores it
+export function applyMove<T extends GameState>(
+  game: T,
+  player: string,
+  moveIndex: number,
+  move: number
+): T {
+  const board = game.board.map((cell, index) =>
+    index === moveIndex ? move : cell
+  );
+
+  if (game["player-two"] === null) {
+    return { ...game, board, "player-two": player, "is-player-one-turn": true };
+  }
+  return {
+    ...game,
+    board,
+    "is-player-one-turn": !game["is-player-one-turn"],
+    winner: hasWon(board) ? player : null,
+  };
+}
@@ -0,0 +1,189 @@
+// Games kept in the browser, so the lobby renders from what was loaded before and keeps working
+// on a flaky connection. Finished games can never change and are not loaded again once stored.
+import {
+  deserializeGame,
+  Game,
+  GameJson,
+  GamesPage,
+  GamesResult,
+  isGameFinished,
+  MAX_GAMES_PER_REQUEST,
+  serializeGame,
+} from "./contract";
+
+export type GameStore = {
+  getGames: () => Promise<Game[]>;
+  putGames: (games: Game[]) => Promise<void>;
+  // When the games were last synced, in milliseconds since the epoch, null before the first sync
+  getLastSyncedAt: () => Promise<number | null>;
+  setLastSyncedAt: (time: number) => Promise<void>;
+};
+
+const GAMES_STORE = "games";
+const META_STORE = "meta";
+const LAST_SYNCED_AT_KEY = "lastSyncedAt";
+
+// Unfinished games of other players are only loaded again while they are among the newest ones,
+// older ones are most likely abandoned and would otherwise be loaded on every sync
+const RECENT_GAME_COUNT = 100;
+
+// For tests and for browsers without IndexedDB, e.g. private windows of some browsers
+export function createMemoryGameStore(): GameStore {
+  const games = new Map<number, GameJson>();
+  let lastSyncedAt: number | null = null;
+
+  return {
+    async getGames() {
+      return [...games.values()].map(deserializeGame);
+    },
+    async putGames(loaded) {
+      for (const game of loaded) games.set(game.id, serializeGame(game));
+    },
+    async getLastSyncedAt() {
+      return lastSyncedAt;
+    },
+    async setLastSyncedAt(time) {
+      lastSyncedAt = time;
+    },
+  };
+}
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// One database per network, since game ids of different networks refer to different games.
+// Games are stored serialized, IndexedDB could hold the bigint bet amounts but GameJson keeps
+// the stored shape the same as the one of the API routes.
+export function createIndexedDbGameStore(
+  name: string,
+  factory: IDBFactory = indexedDB
+): GameStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  function open() {
+    database ??= new Promise((resolve, reject) => {
+      const request = factory.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(GAMES_STORE, { keyPath: "id" });
+        request.result.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Opening can fail once, e.g. while another tab upgrades the database, try again next time
+    database.catch(() => (database = null));
+    return database;
+  }
+
+  async function objectStore(storeName: string, mode: IDBTransactionMode) {
+    const transaction = (await open()).transaction(storeName, mode);
+    return { store: transaction.objectStore(storeName), transaction };
+  }
+
+  return {
+    async getGames() {
+      const { store } = await objectStore(GAMES_STORE, "readonly");
+      const games = await requestResult<GameJson[]>(store.getAll());
+      return games.map(deserializeGame);
+    },
+    async putGames(games) {
+      if (games.length === 0) return;
+      const { store, transaction } = await objectStore(
+        GAMES_STORE,
+        "readwrite"
+      );
+      for (const game of games) store.put(serializeGame(game));
+      await transactionDone(transaction);
+    },
+    async getLastSyncedAt() {
+      const { store } = await objectStore(META_STORE, "readonly");
+      const time = await requestResult(store.get(LAST_SYNCED_AT_KEY));
+      return typeof time === "number" ? time : null;
+    },
+    async setLastSyncedAt(time) {
+      const { store, transaction } = await objectStore(META_STORE, "readwrite");
+      store.put(time, LAST_SYNCED_AT_KEY);
+      await transactionDone(transaction);
+    },
+  };
+}
+
+// The store of the games of a network in this browser
+export function openGameStore(networkName: string): GameStore {
+  if (typeof indexedDB === "undefined") return createMemoryGameStore();
+  return createIndexedDbGameStore(`tic-tac-toe:games:${networkName}`);
+}
+
+export type SyncGamesOptions = {
+  loadPage: (cursor: number | null) => Promise<GamesPage>;
+  loadGames: (gameIds: number[]) => Promise<GamesResult>;
+  // The connected player, whose unfinished games are always loaded again
+  player?: string | null;
+};
+
+export type SyncedGames = GamesPage & {
+  lastSyncedAt: number;
+};
+
+function isPlayerOf(game: Game, player: string) {
+  return (
+    game["player-one"] === player ||
+    game["player-two"] === player ||
+    game["invited-opponent"] === player
+  );
+}
+
+// Bring the stored games up to date: the newest page brings in new games, and stored games
+// that are still waiting or in progress are loaded again when they are the player's own or among
+// the RECENT_GAME_COUNT newest games. Finished games are left alone.
+// Throws when the newest page can not be loaded, the stored games stay as they were then.
+export async function syncGames(
+  store: GameStore,
+  { loadPage, loadGames, player = null }: SyncGamesOptions
+): Promise<SyncedGames> {
+  const page = await loadPage(null);
+  await store.putGames(page.games);
+
+  const stored = await store.getGames();
+  const newestId = Math.max(
+    -1,
+    ...stored.map((game) => game.id),
+    ...page.failedGameIds
+  );
+  const onPage = new Set(page.games.map((game) => game.id));
+  const unfinishedIds = stored
+    .filter(
+      (game) =>
+        !onPage.has(game.id) &&
+        !isGameFinished(game) &&
+        ((player !== null && isPlayerOf(game, player)) ||
+          game.id > newestId - RECENT_GAME_COUNT)
+    )
+    .map((game) => game.id);
+
+  // One request at a time, each within what the games API accepts
+  let failedGameIds = page.failedGameIds;
+  for (let i = 0; i < unfinishedIds.length; i += MAX_GAMES_PER_REQUEST) {
+    const result = await loadGames(
+      unfinishedIds.slice(i, i + MAX_GAMES_PER_REQUEST)
+    );
+    await store.putGames(result.games);
+    failedGameIds = [...failedGameIds, ...result.failedGameIds];
+  }
+
+  const lastSyncedAt = Date.now();
+  await store.setLastSyncedAt(lastSyncedAt);
+  return { ...page, failedGameIds, lastSyncedAt };
+}
@@ -0,0 +1,45 @@
+// Reads games from the indexer in ../indexer when INDEXER_URL is set. Server-side only,
+// the indexer is not meant to be reachable from the browser.
+import { deserializeGame, Game, GameJson } from "./contract";
+
+export function getIndexerUrl() {
+  return process.env.INDEXER_URL?.replace(/\/$/, "") || null;
+}
+
+// Null when the indexer has not seen the game (yet), callers fall back to the contract
+export async function fetchIndexedGame(
+  indexerUrl: string,
+  gameId: number
+): Promise<Game | null> {
+  const response = await fetch(`${indexerUrl}/games/${gameId}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Indexer returned status ${response.status}`);
+  }
+
+  const data: { game: GameJson } = await response.json();
+  return deserializeGame(data.game);
+}
+
+// Every indexed game and the block of its latest event, for the filtered queries of the lobby
+export async function fetchIndexedGames(
+  indexerUrl: string
+): Promise<{ games: Game[]; activity: Map<number, number> }> {
+  const response = await fetch(`${indexerUrl}/games/all`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Indexer returned status ${response.status}`);
+  }
+
+  const data: { games: GameJson[]; activity: [number, number][] } =
+    await response.json();
+  return {
+    games: data.games.map(deserializeGame),
+    activity: new Map(data.activity),
+  };
+}
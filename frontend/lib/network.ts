@@ -0,0 +1,120 @@
+import {
+  createNetwork,
+  STACKS_DEVNET,
+  STACKS_MAINNET,
+  STACKS_TESTNET,
+  StacksNetwork,
+} from "@stacks/network";
+import {
+  AddressVersion,
+  createAddress,
+  validateStacksAddress,
+} from "@stacks/transactions";
+import { findContract } from "./contract-registry";
+
+export type NetworkName = "devnet" | "testnet" | "mainnet";
+
+export type NetworkConfig = {
+  name: NetworkName;
+  network: StacksNetwork;
+  // Base URL of the Stacks API used for reads and balances
+  apiUrl: string;
+  // JSON-RPC websocket of the Stacks API, used for live updates
+  websocketUrl: string;
+  // Query string that points the Hiro explorer at this network
+  explorerQuery: string;
+  // Principal that deployed the tic-tac-toe contract on this network
+  contractAddress: string;
+  contractName: string;
+};
+
+const NETWORK_NAMES: NetworkName[] = ["devnet", "testnet", "mainnet"];
+
+const CONTRACT_NAME = "tic-tac-toe";
+
+// Defaults for each network, the API URL can be overridden from env. The contract deployer
+// comes from the contract registry and can be overridden as well, e.g. for mainnet.
+const NETWORK_DEFAULTS: Record<
+  NetworkName,
+  { network: StacksNetwork; apiUrl: string }
+> = {
+  // Local `clarinet devnet start`
+  devnet: {
+    network: STACKS_DEVNET,
+    apiUrl: "http://localhost:3999",
+  },
+  testnet: {
+    network: STACKS_TESTNET,
+    apiUrl: "https://api.testnet.hiro.so",
+  },
+  mainnet: {
+    network: STACKS_MAINNET,
+    apiUrl: "https://api.mainnet.hiro.so",
+  },
+};
+
+const MAINNET_ADDRESS_VERSIONS: number[] = [
+  AddressVersion.MainnetSingleSig,
+  AddressVersion.MainnetMultiSig,
+];
+
+// Whether the address is valid on the network, devnet uses testnet addresses
+export function isNetworkAddress(address: string, name: NetworkName) {
+  if (!validateStacksAddress(address)) return false;
+  const isMainnet = MAINNET_ADDRESS_VERSIONS.includes(
+    createAddress(address).version
+  );
+  return isMainnet === (name === "mainnet");
+}
+
+export function parseNetworkName(value: string | undefined): NetworkName {
+  if (!value) return "testnet";
+  if (!NETWORK_NAMES.includes(value as NetworkName)) {
+    throw new Error(
+      `Unknown Stacks network "${value}", expected one of ${NETWORK_NAMES.join(", ")}`
+    );
+  }
+  return value as NetworkName;
+}
+
+export function getNetworkConfig(
+  name: NetworkName,
+  overrides: { apiUrl?: string; contractAddress?: string } = {}
+): NetworkConfig {
+  const defaults = NETWORK_DEFAULTS[name];
+  const apiUrl = overrides.apiUrl || defaults.apiUrl;
+  const contractAddress =
+    overrides.contractAddress || findContract(name, CONTRACT_NAME)?.address;
+  if (!contractAddress) {
+    throw new Error(
+      `No tic-tac-toe deployment is known for ${name}, set NEXT_PUBLIC_CONTRACT_ADDRESS`
+    );
+  }
+
+  return {
+    name,
+    network: createNetwork({
+      network: defaults.network,
+      client: { baseUrl: apiUrl },
+    }),
+    apiUrl,
+    websocketUrl: `${apiUrl.replace(/^http/, "ws")}/extended/v1/ws`,
+    // The explorer has no devnet chain, it is pointed at the local API instead
+    explorerQuery:
+      name === "devnet"
+        ? `?chain=testnet&api=${encodeURIComponent(apiUrl)}`
+        : `?chain=${name}`,
+    contractAddress,
+    contractName: CONTRACT_NAME,
+  };
+}
+
+// The network the app is built for. NEXT_PUBLIC_* variables are inlined at build time,
+// so this resolves to the same config on the server and in the browser.
+export const networkConfig = getNetworkConfig(
+  parseNetworkName(process.env.NEXT_PUBLIC_STACKS_NETWORK),
+  {
+    apiUrl: process.env.NEXT_PUBLIC_STACKS_API_URL,
+    contractAddress: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS,
+  }
+);
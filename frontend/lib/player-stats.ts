@@ -0,0 +1,105 @@
+import { MicroStx } from "./amount";
+import { Game } from "./contract";
+
+export type GameOutcome = "win" | "loss" | "draw";
+
+export type Streak = {
+  outcome: GameOutcome;
+  length: number;
+};
+
+export type PlayerStats = {
+  // Games the player took part in, newest first
+  games: Game[];
+  wins: number;
+  losses: number;
+  draws: number;
+  // Games that are waiting for an opponent or still being played
+  activeGames: number;
+  // STX won minus STX lost over all finished games, the player's own bet is not counted as a win
+  netStx: MicroStx;
+  // The latest run of equal outcomes, null until the player finished a game
+  streak: Streak | null;
+};
+
+export function isPlayerInGame(game: Game, address: string) {
+  return game["player-one"] === address || game["player-two"] === address;
+}
+
+// Outcome of a game for one of its players, null while the game is not over
+export function getGameOutcome(
+  game: Game,
+  address: string
+): GameOutcome | null {
+  if (game.status === "draw") return "draw";
+  if (game.status === "won") return game.winner === address ? "win" : "loss";
+  return null;
+}
+
+export function getPlayerStats(address: string, games: Game[]): PlayerStats {
+  const playerGames = games
+    .filter((game) => isPlayerInGame(game, address))
+    .sort((a, b) => b.id - a.id);
+
+  const stats: PlayerStats = {
+    games: playerGames,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    activeGames: 0,
+    netStx: 0n,
+    streak: null,
+  };
+  let isStreakOver = false;
+
+  // Newest first, so the streak is counted until the first game with a different outcome
+  for (const game of playerGames) {
+    const outcome = getGameOutcome(game, address);
+    if (outcome === null) {
+      stats.activeGames++;
+      continue;
+    }
+
+    if (outcome === "win") {
+      stats.wins++;
+      stats.netStx += game["bet-amount"];
+    } else if (outcome === "loss") {
+      stats.losses++;
+      stats.netStx -= game["bet-amount"];
+    } else {
+      stats.draws++;
+    }
+
+    if (!stats.streak) {
+      stats.streak = { outcome, length: 1 };
+    } else if (!isStreakOver && stats.streak.outcome === outcome) {
+      stats.streak.length++;
+    } else {
+      isStreakOver = true;
+    }
+  }
+
+  return stats;
+}
+
+// The other player of a game, or the invited opponent while a challenge waits to be accepted
+function getOpponent(game: Game, address: string) {
+  if (game["player-one"] === address) {
+    return game["player-two"] ?? game["invited-opponent"];
+  }
+  if (game["player-two"] === address || game["invited-opponent"] === address) {
+    return game["player-one"];
+  }
+  return null;
+}
+
+// Players the address played against or challenged, most recent game first
+export function getRecentOpponents(address: string, games: Game[], limit = 10) {
+  const opponents = new Set<string>();
+  for (const game of [...games].sort((a, b) => b.id - a.id)) {
+    const opponent = getOpponent(game, address);
+    if (opponent) opponents.add(opponent);
+    if (opponents.size === limit) break;
+  }
+  return [...opponents];
+}
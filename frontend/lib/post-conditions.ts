@@ -0,0 +1,82 @@
+import {
+  ClarityValue,
+  Pc,
+  PostCondition,
+  PostConditionMode,
+  UIntCV,
+} from "@stacks/transactions";
+import { Game } from "./contract";
+import { applyMove, hasWon, isBoardFull } from "./game-rules";
+
+// The contract calls built by createNewGame, joinGame and play
+export type GameContractCall = {
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  functionArgs: ClarityValue[];
+};
+
+export type GamePostConditions = {
+  postConditionMode: PostConditionMode;
+  postConditions: PostCondition[];
+};
+
+function uintArg(call: GameContractCall, index: number) {
+  const arg = call.functionArgs[index] as UIntCV | undefined;
+  if (arg?.type !== "uint") {
+    throw new Error(`Argument ${index} of ${call.functionName} must be a uint`);
+  }
+  return BigInt(arg.value);
+}
+
+// Derive the exact STX transfers of a tic-tac-toe contract call. In Deny mode any transfer that is
+// not covered by a post-condition aborts the transaction, so the contract can never move more than
+// the bet, and a move that should not pay out cannot move any STX at all.
+export function buildPostConditions(
+  call: GameContractCall,
+  sender: string,
+  game?: Game
+): GamePostConditions {
+  const contract = `${call.contractAddress}.${call.contractName}` as const;
+  let postConditions: PostCondition[];
+
+  switch (call.functionName) {
+    // create-game (bet-amount move-index move): the creator pays the bet into the contract
+    case "create-game": {
+      const betAmount = uintArg(call, 0);
+      postConditions = [Pc.principal(sender).willSendEq(betAmount).ustx()];
+      break;
+    }
+
+    // join-game (game-id move-index move): the second player matches the bet of the game
+    case "join-game": {
+      if (!game) throw new Error("join-game post-conditions need the game");
+      postConditions = [
+        Pc.principal(sender).willSendEq(game["bet-amount"]).ustx(),
+      ];
+      break;
+    }
+
+    // play (game-id move-index move): the contract pays out if the move ends the game.
+    // A winner receives both bets, a draw returns one bet to each player.
+    case "play": {
+      if (!game) throw new Error("play post-conditions need the game");
+      const moveIndex = Number(uintArg(call, 1));
+      const move = Number(uintArg(call, 2));
+      const { board } = applyMove(game, sender, moveIndex, move);
+
+      const isWinner = hasWon(board);
+      const isDraw = !isWinner && isBoardFull(board);
+      postConditions =
+        isWinner || isDraw
+          ? [Pc.principal(contract).willSendEq(2n * game["bet-amount"]).ustx()]
+          : [];
+      break;
+    }
+
+    default:
+      throw new Error(`No post-conditions known for ${call.functionName}`);
+  }
+
+  return { postConditionMode: PostConditionMode.Deny, postConditions };
+}
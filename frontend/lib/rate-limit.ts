@@ -0,0 +1,81 @@
+// Per-client request limits of the API routes, counted in fixed windows. Counts are kept in
+// memory, so every server instance limits on its own.
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the current window ends, in milliseconds since the epoch
+  resetAt: number;
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+export function createRateLimiter({
+  limit,
+  windowMs,
+  maxClients = 10000,
+}: {
+  limit: number;
+  windowMs: number;
+  // Clients seen least recently are forgotten beyond this, so the counts can not grow unbounded
+  maxClients?: number;
+}) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    check(clientId: string, now = Date.now()): RateLimitResult {
+      let window = windows.get(clientId);
+      windows.delete(clientId);
+      if (!window || now >= window.resetAt) {
+        window = { count: 0, resetAt: now + windowMs };
+      }
+      window.count++;
+      windows.set(clientId, window);
+      while (windows.size > maxClients) {
+        windows.delete(windows.keys().next().value!);
+      }
+
+      return {
+        allowed: window.count <= limit,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        resetAt: window.resetAt,
+      };
+    },
+  };
+}
+
+// The address of the client, as seen by the first of trustedProxies proxies in front of the app.
+// Every proxy appends the address it was connected from to X-Forwarded-For, so only the last
+// trustedProxies entries can be trusted and the client can put anything before them. Vercel and
+// a single reverse proxy are 1, with 0 the headers are ignored. X-Real-IP is not used, a client
+// can send it itself. Null when the client can not be told apart: without a proxy, or when fewer
+// entries than proxies are present, since then the first one came from the client.
+export function getClientIp(headers: Headers, trustedProxies = 1) {
+  if (trustedProxies <= 0) return null;
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwarded.length < trustedProxies) return null;
+  return forwarded[forwarded.length - trustedProxies];
+}
+
+export function rateLimitHeaders(
+  result: RateLimitResult,
+  now = Date.now()
+): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000)),
+    ...(result.allowed
+      ? {}
+      : {
+          "Retry-After": String(
+            Math.max(1, Math.ceil((result.resetAt - now) / 1000))
+          ),
+        }),
+  };
+}
@@ -0,0 +1,123 @@
+import { MicroStx } from "./amount";
+import { Game, isGameFinished } from "./contract";
+import { getGameOutcome, GameOutcome } from "./player-stats";
+
+// Rating every player starts with before their first finished game
+export const INITIAL_RATING = 1500;
+// Maximum number of points a single game can move a rating
+export const K_FACTOR = 32;
+
+export type PlayerRating = {
+  player: string;
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  // STX won minus STX lost, draws refund both bets and do not count
+  winnings: MicroStx;
+};
+
+const OUTCOME_SCORES: Record<GameOutcome, number> = {
+  win: 1,
+  draw: 0.5,
+  loss: 0,
+};
+
+const OPPOSITE_OUTCOMES: Record<GameOutcome, GameOutcome> = {
+  win: "loss",
+  draw: "draw",
+  loss: "win",
+};
+
+// Probability that a player with `rating` beats one with `opponentRating`, draws counting as half
+export function expectedScore(rating: number, opponentRating: number) {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// New ratings of both players after a game in which player one scored `score` (1, 0.5 or 0)
+export function updateRatings(
+  playerOneRating: number,
+  playerTwoRating: number,
+  score: number,
+  kFactor = K_FACTOR
+): [number, number] {
+  const expected = expectedScore(playerOneRating, playerTwoRating);
+  const change = kFactor * (score - expected);
+  return [playerOneRating + change, playerTwoRating - change];
+}
+
+function createPlayerRating(player: string): PlayerRating {
+  return {
+    player,
+    rating: INITIAL_RATING,
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    winnings: 0n,
+  };
+}
+
+function recordOutcome(
+  rating: PlayerRating,
+  outcome: GameOutcome,
+  betAmount: MicroStx
+) {
+  rating.gamesPlayed++;
+  if (outcome === "win") {
+    rating.wins++;
+    rating.winnings += betAmount;
+  } else if (outcome === "loss") {
+    rating.losses++;
+    rating.winnings -= betAmount;
+  } else {
+    rating.draws++;
+  }
+}
+
+// Replay every finished game in id order, the order in which they were created on chain.
+// Returns the players ordered by rating, best first.
+export function computeRatings(
+  games: Game[],
+  kFactor = K_FACTOR
+): PlayerRating[] {
+  const ratings = new Map<string, PlayerRating>();
+  const getRating = (player: string) => {
+    let rating = ratings.get(player);
+    if (!rating) {
+      rating = createPlayerRating(player);
+      ratings.set(player, rating);
+    }
+    return rating;
+  };
+
+  const finishedGames = games
+    .filter((game) => isGameFinished(game))
+    .sort((a, b) => a.id - b.id);
+
+  for (const game of finishedGames) {
+    const playerTwoAddress = game["player-two"];
+    const outcome = getGameOutcome(game, game["player-one"]);
+    // A finished game always has two players, this only guards against malformed data
+    if (!playerTwoAddress || !outcome) continue;
+
+    const playerOne = getRating(game["player-one"]);
+    const playerTwo = getRating(playerTwoAddress);
+    [playerOne.rating, playerTwo.rating] = updateRatings(
+      playerOne.rating,
+      playerTwo.rating,
+      OUTCOME_SCORES[outcome],
+      kFactor
+    );
+    recordOutcome(playerOne, outcome, game["bet-amount"]);
+    recordOutcome(playerTwo, OPPOSITE_OUTCOMES[outcome], game["bet-amount"]);
+  }
+
+  return [...ratings.values()].sort(
+    (a, b) =>
+      b.rating - a.rating ||
+      b.gamesPlayed - a.gamesPlayed ||
+      a.player.localeCompare(b.player)
+  );
+}
@@ -0,0 +1,293 @@
+// Reconstructs how a game was played from the contract-call transactions of the game.
+// A Game only holds the final board, the Stacks API still has every create-game, join-game
+// and play call together with the print event the contract emitted for it.
+import { ClarityValue, hexToCV, UIntCV } from "@stacks/transactions";
+import { toMicroStx } from "./amount";
+import { decodeGameEventValue, GameEvent } from "./game-events";
+import { EMPTY_BOARD, Move } from "./game-rules";
+import { networkConfig, NetworkConfig } from "./network";
+import type { GameFunctionName } from "./transactions";
+
+// Number of transactions requested per page, the maximum the Stacks API allows
+const TRANSACTIONS_PAGE_SIZE = 50;
+// Older games need more pages, give up instead of walking the whole contract history
+const MAX_TRANSACTION_PAGES = 20;
+// Pages of transactions the lobby looks at to order games by their last activity
+const ACTIVITY_TRANSACTION_PAGES = 4;
+
+// The parts of a Stacks API transaction the replay uses
+export type ApiTransaction = {
+  tx_id: string;
+  tx_type: string;
+  tx_status: string;
+  sender_address: string;
+  block_height: number;
+  tx_index: number;
+  tx_result?: { hex: string; repr: string };
+  contract_call?: {
+    contract_id: string;
+    function_name: string;
+    function_args?: { hex: string; name: string; repr: string; type: string }[];
+  };
+  events?: ApiTransactionEvent[];
+};
+
+export type ApiTransactionEvent = {
+  event_type: string;
+  contract_log?: {
+    contract_id: string;
+    topic: string;
+    value: { hex: string; repr: string };
+  };
+};
+
+export type ReplayStep = {
+  txId: string;
+  functionName: GameFunctionName;
+  player: string;
+  moveIndex: number;
+  move: Move;
+  // The board after this move
+  board: number[];
+  blockHeight: number;
+  // The decoded print event, null if the API did not return the events of the transaction
+  event: GameEvent | null;
+};
+
+// ReplaySteps as returned by /api/games/[gameId]/replay, with the bet amount as a string
+export type ReplayStepJson = Omit<ReplayStep, "event"> & {
+  event:
+    | Exclude<GameEvent, { action: "create-game" }>
+    | (Omit<Extract<GameEvent, { action: "create-game" }>, "betAmount"> & {
+        betAmount: string;
+      })
+    | null;
+};
+
+export function serializeReplay(steps: ReplayStep[]): ReplayStepJson[] {
+  return steps.map((step) =>
+    step.event?.action === "create-game"
+      ? {
+          ...step,
+          event: { ...step.event, betAmount: step.event.betAmount.toString() },
+        }
+      : { ...step, event: step.event }
+  );
+}
+
+export function deserializeReplay(steps: ReplayStepJson[]): ReplayStep[] {
+  return steps.map((step) =>
+    step.event?.action === "create-game"
+      ? {
+          ...step,
+          event: { ...step.event, betAmount: toMicroStx(step.event.betAmount) },
+        }
+      : { ...step, event: step.event }
+  );
+}
+
+// Whether the last move of a replay ended the game, unknown without the events
+export function isReplayFinished(steps: ReplayStep[]) {
+  const event = steps.at(-1)?.event;
+  return event?.action === "play" && (event.winner !== null || event.isDraw);
+}
+
+const GAME_FUNCTIONS: GameFunctionName[] = ["create-game", "join-game", "play"];
+
+function decodeUint(value: ClarityValue) {
+  if (value.type !== "uint")
+    throw new Error(`Expected a uint, got ${value.type}`);
+  return Number((value as UIntCV).value);
+}
+
+// Decode the hex encoded payload of a print event emitted by the contract, null for any other
+// value
+export function decodeGameEvent(hex: string): GameEvent | null {
+  return decodeGameEventValue(hexToCV(hex));
+}
+
+// Game id a transaction belongs to: the first argument of join-game and play,
+// the (ok game-id) result of create-game
+export function getTransactionGameId(transaction: ApiTransaction) {
+  const call = transaction.contract_call;
+  if (call?.function_name === "create-game") {
+    const match = transaction.tx_result?.repr.match(/^\(ok u(\d+)\)$/);
+    return match ? parseInt(match[1]) : null;
+  }
+  const gameIdArg = call?.function_args?.[0];
+  return gameIdArg ? decodeUint(hexToCV(gameIdArg.hex)) : null;
+}
+
+// A successful create-game, join-game or play call of the contract
+function isGameCall(transaction: ApiTransaction, contractId: string) {
+  const call = transaction.contract_call;
+  return (
+    transaction.tx_type === "contract_call" &&
+    transaction.tx_status === "success" &&
+    call?.contract_id === contractId &&
+    GAME_FUNCTIONS.includes(call.function_name as GameFunctionName)
+  );
+}
+
+function isGameTransaction(
+  transaction: ApiTransaction,
+  contractId: string,
+  gameId: number
+) {
+  return (
+    isGameCall(transaction, contractId) &&
+    getTransactionGameId(transaction) === gameId
+  );
+}
+
+function findGameEvent(transaction: ApiTransaction, contractId: string) {
+  for (const event of transaction.events ?? []) {
+    const log = event.contract_log;
+    if (
+      event.event_type === "smart_contract_log" &&
+      log?.contract_id === contractId &&
+      log.topic === "print"
+    ) {
+      const decoded = decodeGameEvent(log.value.hex);
+      if (decoded) return decoded;
+    }
+  }
+  return null;
+}
+
+// Turn the successful calls of one game into its moves, ordered as they were mined
+export function buildReplay(
+  transactions: ApiTransaction[],
+  contractId: string
+): ReplayStep[] {
+  const ordered = [...transactions].sort(
+    (a, b) => a.block_height - b.block_height || a.tx_index - b.tx_index
+  );
+
+  let board = [...EMPTY_BOARD];
+  return ordered.map((transaction) => {
+    const call = transaction.contract_call;
+    if (!call) throw new Error(`${transaction.tx_id} is not a contract call`);
+    // create-game (bet-amount move-index move), join-game and play (game-id move-index move)
+    const args = (call.function_args ?? []).map((arg) => hexToCV(arg.hex));
+    const moveIndex = decodeUint(args[1]);
+    const move = decodeUint(args[2]) as Move;
+
+    board = board.map((cell, index) => (index === moveIndex ? move : cell));
+    return {
+      txId: transaction.tx_id,
+      functionName: call.function_name as GameFunctionName,
+      player: transaction.sender_address,
+      moveIndex,
+      move,
+      board,
+      blockHeight: transaction.block_height,
+      event: findGameEvent(transaction, contractId),
+    };
+  });
+}
+
+async function fetchApi<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Stacks API returned status ${response.status} for ${url}`);
+  }
+  return response.json();
+}
+
+// Pages of the transactions of the contract, newest first, until the oldest one or maxPages
+async function* transactionPages(config: NetworkConfig, maxPages: number) {
+  const contractId = `${config.contractAddress}.${config.contractName}`;
+  for (let page = 0; page < maxPages; page++) {
+    const offset = page * TRANSACTIONS_PAGE_SIZE;
+    const { results, total } = await fetchApi<{
+      results: ApiTransaction[];
+      total: number;
+    }>(
+      `${config.apiUrl}/extended/v1/address/${contractId}/transactions?limit=${TRANSACTIONS_PAGE_SIZE}&offset=${offset}`
+    );
+    yield results;
+    if (offset + results.length >= total || results.length === 0) return;
+  }
+}
+
+// Walk the transactions of the contract, newest first, until the create-game call of the game
+// is found. The list endpoint leaves out events, so they are fetched per game transaction.
+export async function fetchGameReplay(
+  gameId: number,
+  config: NetworkConfig = networkConfig
+): Promise<ReplayStep[]> {
+  const contractId = `${config.contractAddress}.${config.contractName}`;
+  // Keyed by id, new transactions shift the offsets and can repeat one on the next page
+  const gameTransactions = new Map<string, ApiTransaction>();
+
+  for await (const results of transactionPages(config, MAX_TRANSACTION_PAGES)) {
+    const matches = results.filter(
+      (transaction) =>
+        isGameTransaction(transaction, contractId, gameId) &&
+        !gameTransactions.has(transaction.tx_id)
+    );
+    const details = await Promise.all(
+      matches.map((transaction) =>
+        fetchApi<ApiTransaction>(
+          `${config.apiUrl}/extended/v1/tx/${transaction.tx_id}`
+        )
+      )
+    );
+    details.forEach((transaction) =>
+      gameTransactions.set(transaction.tx_id, transaction)
+    );
+
+    const isCreated = matches.some(
+      (transaction) =>
+        transaction.contract_call?.function_name === "create-game"
+    );
+    if (isCreated) {
+      return buildReplay([...gameTransactions.values()], contractId);
+    }
+  }
+
+  throw new Error(`Could not find the transactions of game ${gameId}`);
+}
+
+// Used by client components, reads the replay through the cache of the /api/games routes
+export async function getGameReplay(gameId: number): Promise<ReplayStep[]> {
+  const response = await fetch(`/api/games/${gameId}/replay`, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(
+      data?.error ?? `Games API returned status ${response.status}`
+    );
+  }
+  const { steps }: { steps: ReplayStepJson[] } = await response.json();
+  return deserializeReplay(steps);
+}
+
+// Block height of the last successful transaction of every game among the newest transactions
+// of the contract. The games map does not record when a game changed, games that had no
+// transaction recently are left out.
+export async function fetchGameActivity(
+  config: NetworkConfig = networkConfig,
+  pageCount = ACTIVITY_TRANSACTION_PAGES
+): Promise<Map<number, number>> {
+  const contractId = `${config.contractAddress}.${config.contractName}`;
+  const activity = new Map<number, number>();
+
+  for await (const results of transactionPages(config, pageCount)) {
+    for (const transaction of results) {
+      if (!isGameCall(transaction, contractId)) continue;
+      const gameId = getTransactionGameId(transaction);
+      if (gameId === null) continue;
+      activity.set(
+        gameId,
+        Math.max(activity.get(gameId) ?? 0, transaction.block_height)
+      );
+    }
+  }
+
+  return activity;
+}
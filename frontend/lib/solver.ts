@@ -0,0 +1,178 @@
+// Tic-tac-toe solver used by the practice opponent. Like game-rules it has no runtime
+// dependencies, so it runs the same in the browser and in the tests.
+import { hasWon, isBoardFull, Move, WINNING_LINES } from "./game-rules";
+
+export type Difficulty = "easy" | "medium" | "perfect";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "perfect"];
+
+// Game-theoretic value of a position or move for the side that plays it
+export type Outcome = "win" | "draw" | "loss";
+
+export type MoveScore = {
+  index: number;
+  // Positive when the move wins, negative when it loses and 0 for a draw with perfect play.
+  // Faster wins and slower losses score further from 0.
+  score: number;
+};
+
+export function getOpponent(move: Move) {
+  return move === Move.X ? Move.O : Move.X;
+}
+
+// X always moves first, so O is to move whenever X has played more moves
+export function getTurn(board: Move[]) {
+  const xCount = board.filter((cell) => cell === Move.X).length;
+  const oCount = board.filter((cell) => cell === Move.O).length;
+  return xCount > oCount ? Move.O : Move.X;
+}
+
+export function getWinner(board: Move[]): Move | null {
+  const line = WINNING_LINES.find(
+    ([a, b, c]) =>
+      board[a] !== Move.EMPTY && board[a] === board[b] && board[a] === board[c]
+  );
+  return line ? board[line[0]] : null;
+}
+
+export function isGameOver(board: Move[]) {
+  return hasWon(board) || isBoardFull(board);
+}
+
+export function getEmptyCells(board: Move[]) {
+  return board.flatMap((cell, index) => (cell === Move.EMPTY ? [index] : []));
+}
+
+export function getOutcome(score: number): Outcome {
+  return score > 0 ? "win" : score < 0 ? "loss" : "draw";
+}
+
+// The score of the same position for the other side, without turning draws into -0
+function negate(score: number) {
+  return score === 0 ? 0 : -score;
+}
+
+// Negamax with alpha-beta pruning: the score of the position for `player`, who is to move.
+// The board is changed in place while searching and restored before returning.
+function negamax(
+  board: Move[],
+  player: Move,
+  alpha: number,
+  beta: number
+): number {
+  const emptyCells = getEmptyCells(board);
+  // The previous move can only have completed a line of the opponent
+  if (hasWon(board)) return -(emptyCells.length + 1);
+  if (emptyCells.length === 0) return 0;
+
+  let best = -Infinity;
+  for (const index of emptyCells) {
+    board[index] = player;
+    const score = negate(negamax(board, getOpponent(player), -beta, -alpha));
+    board[index] = Move.EMPTY;
+
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+// Score of the position for the side to move
+export function evaluatePosition(board: Move[]) {
+  return negamax([...board], getTurn(board), -Infinity, Infinity);
+}
+
+// Exact score of every empty cell for the side to move. Games on chain know whose turn it is,
+// so the player can be passed instead of being derived from the board.
+export function scoreMoves(
+  board: Move[],
+  player: Move = getTurn(board)
+): MoveScore[] {
+  if (isGameOver(board)) return [];
+  const searchBoard = [...board];
+
+  return getEmptyCells(board).map((index) => {
+    searchBoard[index] = player;
+    const score = negate(
+      negamax(searchBoard, getOpponent(player), -Infinity, Infinity)
+    );
+    searchBoard[index] = Move.EMPTY;
+    return { index, score };
+  });
+}
+
+function getBestScore(scores: MoveScore[]) {
+  return Math.max(...scores.map(({ score }) => score));
+}
+
+function getBestScoredMoves(scores: MoveScore[]) {
+  const bestScore = getBestScore(scores);
+  return scores
+    .filter(({ score }) => score === bestScore)
+    .map(({ index }) => index);
+}
+
+// The cells with the highest score, all of them are equally good
+export function getBestMoves(board: Move[], player: Move = getTurn(board)) {
+  return getBestScoredMoves(scoreMoves(board, player));
+}
+
+export type PositionAnalysis = {
+  // Outcome of playing each cell, null for cells that are taken
+  cells: (Outcome | null)[];
+  bestMoves: number[];
+  // Outcome of the position with perfect play from both sides
+  outcome: Outcome;
+};
+
+// What the analysis panel shows for `player`, null once the game is over
+export function analyzePosition(
+  board: Move[],
+  player: Move
+): PositionAnalysis | null {
+  const scores = scoreMoves(board, player);
+  if (scores.length === 0) return null;
+
+  const cells: (Outcome | null)[] = board.map(() => null);
+  for (const { index, score } of scores) cells[index] = getOutcome(score);
+  return {
+    cells,
+    bestMoves: getBestScoredMoves(scores),
+    outcome: getOutcome(getBestScore(scores)),
+  };
+}
+
+function pick(cells: number[], random: () => number) {
+  return cells[Math.floor(random() * cells.length)];
+}
+
+// A cell that completes a line of `player`
+function findWinningCell(board: Move[], player: Move) {
+  return getEmptyCells(board).find((index) => {
+    const next = [...board];
+    next[index] = player;
+    return hasWon(next);
+  });
+}
+
+// The cell the computer plays for the side to move:
+// easy plays any free cell, medium wins or blocks when it sees a line and plays randomly otherwise,
+// perfect plays one of the best moves. Returns -1 when the game is over.
+export function chooseMove(
+  board: Move[],
+  difficulty: Difficulty,
+  random: () => number = Math.random
+) {
+  if (isGameOver(board)) return -1;
+  const player = getTurn(board);
+
+  if (difficulty === "perfect") return pick(getBestMoves(board), random);
+  if (difficulty === "medium") {
+    const cell =
+      findWinningCell(board, player) ??
+      findWinningCell(board, getOpponent(player));
+    if (cell !== undefined) return cell;
+  }
+  return pick(getEmptyCells(board), random);
+}
@@ -0,0 +1,203 @@
+import { decodeContractError } from "./contract-errors";
+import { networkConfig, NetworkConfig } from "./network";
+
+// Final statuses reported by the Stacks API, a transaction is "pending" until it reaches one
+export type TransactionStatus =
+  | "pending"
+  | "success"
+  | "abort_by_response"
+  | "abort_by_post_condition"
+  | "dropped";
+
+export type GameFunctionName = "create-game" | "join-game" | "play";
+
+export type TrackedTransaction = {
+  txId: string;
+  functionName: GameFunctionName;
+  // Unknown for create-game until the transaction confirms with (ok game-id)
+  gameId: number | null;
+  status: TransactionStatus;
+  // Repr of the Clarity result, e.g. "(ok u3)" or "(err u104)"
+  result: string | null;
+  submittedAt: number;
+};
+
+const STORAGE_KEY = "tic-tac-toe:transactions";
+const POLL_INTERVAL = 10000; // 10 seconds
+
+type Listener = () => void;
+type ConfirmationListener = (transaction: TrackedTransaction) => void;
+
+let transactions: TrackedTransaction[] = [];
+let loaded = false;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+const confirmationListeners = new Set<ConfirmationListener>();
+
+const EMPTY: TrackedTransaction[] = [];
+
+function load() {
+  if (loaded || typeof window === "undefined") return;
+  loaded = true;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) transactions = JSON.parse(stored);
+  } catch (error) {
+    console.error("Failed to load tracked transactions:", error);
+  }
+}
+
+function update(next: TrackedTransaction[]) {
+  transactions = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch (error) {
+    console.error("Failed to store tracked transactions:", error);
+  }
+  listeners.forEach((listener) => listener());
+  schedulePoll();
+}
+
+export function isFinalStatus(status: TransactionStatus) {
+  return status !== "pending";
+}
+
+// Explain why a transaction failed, or null if it did not fail
+export function transactionFailureMessage(transaction: TrackedTransaction) {
+  switch (transaction.status) {
+    case "abort_by_response":
+      return (
+        decodeContractError(transaction.result)?.message ??
+        `The contract rejected the transaction with ${transaction.result}.`
+      );
+    case "abort_by_post_condition":
+      return "The transaction would have moved more STX than the bet and was aborted.";
+    case "dropped":
+      return "The transaction was dropped from the mempool.";
+    default:
+      return null;
+  }
+}
+
+// Parse the game id out of an "(ok u3)" result
+function parseGameId(result: string | null) {
+  const match = result?.match(/^\(ok u(\d+)\)$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+export async function fetchTransactionStatus(
+  txId: string,
+  config: NetworkConfig = networkConfig
+): Promise<{ status: TransactionStatus; result: string | null }> {
+  const response = await fetch(`${config.apiUrl}/extended/v1/tx/${txId}`, {
+    headers: { Accept: "application/json" },
+  });
+  // Freshly broadcast transactions can take a moment to show up in the API
+  if (response.status === 404) return { status: "pending", result: null };
+  if (!response.ok) {
+    throw new Error(`Transaction API returned status ${response.status}`);
+  }
+
+  const data: { tx_status: string; tx_result?: { repr: string } } =
+    await response.json();
+  const status = data.tx_status.startsWith("dropped")
+    ? "dropped"
+    : (data.tx_status as TransactionStatus);
+  return { status, result: data.tx_result?.repr ?? null };
+}
+
+async function poll() {
+  pollTimer = null;
+  const pending = transactions.filter((tx) => !isFinalStatus(tx.status));
+
+  const updates = await Promise.all(
+    pending.map(async (tx) => {
+      try {
+        return { tx, ...(await fetchTransactionStatus(tx.txId)) };
+      } catch (error) {
+        console.error(`Failed to fetch status of ${tx.txId}:`, error);
+        return null;
+      }
+    })
+  );
+
+  const confirmed: TrackedTransaction[] = [];
+  const next = transactions.map((tx) => {
+    const found = updates.find((u) => u?.tx.txId === tx.txId);
+    if (!found || found.status === "pending") return tx;
+
+    const updated: TrackedTransaction = {
+      ...tx,
+      status: found.status,
+      result: found.result,
+      gameId: tx.gameId ?? parseGameId(found.result),
+    };
+    confirmed.push(updated);
+    return updated;
+  });
+
+  if (confirmed.length > 0) {
+    update(next);
+    confirmed.forEach((tx) =>
+      confirmationListeners.forEach((listener) => listener(tx))
+    );
+  } else {
+    schedulePoll();
+  }
+}
+
+// Poll while there are pending transactions and someone is listening
+function schedulePoll() {
+  if (pollTimer || listeners.size === 0) return;
+  if (!transactions.some((tx) => !isFinalStatus(tx.status))) return;
+  pollTimer = setTimeout(poll, POLL_INTERVAL);
+}
+
+export function trackTransaction(
+  transaction: Pick<TrackedTransaction, "txId" | "functionName" | "gameId">
+) {
+  load();
+  update([
+    {
+      ...transaction,
+      status: "pending",
+      result: null,
+      submittedAt: Date.now(),
+    },
+    ...transactions.filter((tx) => tx.txId !== transaction.txId),
+  ]);
+}
+
+export function dismissTransaction(txId: string) {
+  load();
+  update(transactions.filter((tx) => tx.txId !== txId));
+}
+
+export function subscribeToTransactions(listener: Listener) {
+  load();
+  listeners.add(listener);
+  schedulePoll();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+    }
+  };
+}
+
+// Called once for every transaction that reaches a final status
+export function subscribeToConfirmations(listener: ConfirmationListener) {
+  confirmationListeners.add(listener);
+  return () => {
+    confirmationListeners.delete(listener);
+  };
+}
+
+export function getTransactions() {
+  return transactions;
+}
+
+export function getServerTransactions() {
+  return EMPTY;
+}
@@ -0,0 +1,137 @@
+// Wallet adapters for browser extensions that implement the Stacks Connect request API
+import {
+  JsonRpcError,
+  JsonRpcErrorCode,
+  request,
+  type StacksProvider,
+} from "@stacks/connect";
+import { PostConditionMode } from "@stacks/transactions";
+import type { WalletProvider } from "./wallet";
+
+// Extensions that also emit events, e.g. Xverse when the user switches accounts
+type InjectedProvider = StacksProvider & {
+  addListener?: (event: string, callback: () => void) => () => void;
+};
+
+// The provider an extension injected, e.g. "XverseProviders.BitcoinProvider" is
+// window.XverseProviders.BitcoinProvider
+function getInjectedProvider(path: string): InjectedProvider | null {
+  if (typeof window === "undefined") return null;
+  let value: unknown = window;
+  for (const key of path.split(".")) {
+    value = (value as Record<string, unknown> | undefined)?.[key];
+  }
+  return (value as InjectedProvider | undefined) ?? null;
+}
+
+function isCancellation(error: unknown) {
+  return (
+    error instanceof JsonRpcError &&
+    (error.code === JsonRpcErrorCode.UserRejection ||
+      error.code === JsonRpcErrorCode.UserCanceled)
+  );
+}
+
+export function createConnectProvider({
+  id,
+  name,
+  icon,
+  installUrl,
+}: Pick<
+  WalletProvider,
+  "id" | "name" | "icon" | "installUrl"
+>): WalletProvider {
+  function getProvider() {
+    const provider = getInjectedProvider(id);
+    if (!provider) throw new Error(`${name} is not installed`);
+    return provider;
+  }
+
+  // The app keeps track of the connection itself, so Connect neither shows its own
+  // wallet selection nor stores anything
+  function options() {
+    return {
+      provider: getProvider(),
+      persistWalletSelect: false,
+      enableLocalStorage: false,
+    };
+  }
+
+  async function getStxAddresses(network: string) {
+    const { addresses } = await request(options(), "getAddresses", {
+      network,
+    });
+    return addresses
+      .map(({ address }) => address)
+      .filter((address) => address.startsWith("S"));
+  }
+
+  return {
+    id,
+    name,
+    icon,
+    installUrl,
+    isInstalled: () => getInjectedProvider(id) !== null,
+
+    async getAddresses(network) {
+      try {
+        return {
+          status: "connected",
+          addresses: await getStxAddresses(network),
+        };
+      } catch (error) {
+        if (isCancellation(error)) return { status: "cancelled" };
+        throw error;
+      }
+    },
+
+    async callContract(call) {
+      try {
+        const { txid } = await request(options(), "stx_callContract", {
+          contract: `${call.contractAddress}.${call.contractName}`,
+          functionName: call.functionName,
+          functionArgs: call.functionArgs,
+          postConditions: call.postConditions,
+          postConditionMode:
+            call.postConditionMode === PostConditionMode.Deny
+              ? "deny"
+              : "allow",
+          network: call.network,
+        });
+        if (!txid) throw new Error(`${name} did not return a transaction id`);
+        return { status: "submitted", txId: txid };
+      } catch (error) {
+        if (isCancellation(error)) return { status: "cancelled" };
+        throw error;
+      }
+    },
+
+    onAccountChange(network, listener) {
+      const provider = getInjectedProvider(id);
+      if (!provider?.addListener) return () => {};
+      // The event carries no addresses, they are requested again. The app is already
+      // approved, so the wallet answers without prompting.
+      return provider.addListener("accountChange", () => {
+        getStxAddresses(network)
+          .then(listener)
+          .catch((error) => {
+            console.error(`Failed to read the ${name} account:`, error);
+            listener([]);
+          });
+      });
+    },
+  };
+}
+
+export const WALLET_PROVIDERS: WalletProvider[] = [
+  createConnectProvider({
+    id: "LeatherProvider",
+    name: "Leather",
+    installUrl: "https://leather.io/install-extension",
+  }),
+  createConnectProvider({
+    id: "XverseProviders.BitcoinProvider",
+    name: "Xverse",
+    installUrl: "https://www.xverse.app/download",
+  }),
+];
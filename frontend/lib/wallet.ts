@@ -0,0 +1,223 @@
+// Connection to the user's wallet. Each wallet is reached through a WalletProvider adapter, the
+// store keeps which one is connected with its addresses and notifies subscribers of changes,
+// so connecting, disconnecting and switching accounts never need a page reload.
+import type { NetworkName } from "./network";
+import type { GameContractCall, GamePostConditions } from "./post-conditions";
+
+export type WalletContractCall = GameContractCall &
+  GamePostConditions & { network: NetworkName };
+
+export type WalletConnectResult =
+  { status: "connected"; addresses: string[] } | { status: "cancelled" };
+
+export type WalletCallResult =
+  { status: "submitted"; txId: string } | { status: "cancelled" };
+
+export type WalletProvider = {
+  id: string;
+  name: string;
+  icon?: string;
+  // Where to get the wallet when it is not installed
+  installUrl?: string;
+  isInstalled: () => boolean;
+  // Ask the wallet for its Stacks addresses, which prompts the user to approve the app
+  getAddresses: (network: NetworkName) => Promise<WalletConnectResult>;
+  // Have the user sign and broadcast a contract call
+  callContract: (call: WalletContractCall) => Promise<WalletCallResult>;
+  // Report the addresses of the account the user switched to in the wallet, an empty list when
+  // the wallet no longer shares one. Returns a function that stops listening.
+  onAccountChange: (
+    network: NetworkName,
+    listener: (addresses: string[]) => void
+  ) => () => void;
+  disconnect?: () => void;
+};
+
+export type WalletStatus = "disconnected" | "connecting" | "connected";
+
+export type WalletState = {
+  status: WalletStatus;
+  providerId: string | null;
+  // Network the wallet was connected for
+  network: NetworkName | null;
+  // Stacks addresses of the connected account, one per chain
+  addresses: string[];
+  isPickerOpen: boolean;
+  error: string | null;
+};
+
+export type WalletStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export type WalletStore = ReturnType<typeof createWalletStore>;
+
+const STORAGE_KEY = "tic-tac-toe:wallet";
+
+type StoredConnection = {
+  providerId: string;
+  network: NetworkName;
+  addresses: string[];
+};
+
+export const DISCONNECTED_STATE: WalletState = {
+  status: "disconnected",
+  providerId: null,
+  network: null,
+  addresses: [],
+  isPickerOpen: false,
+  error: null,
+};
+
+// Wallets expose one address per chain, devnet uses the testnet address format
+export function findStxAddress(addresses: string[], network: NetworkName) {
+  const prefixes = network === "mainnet" ? ["SP", "SM"] : ["ST", "SN"];
+  return (
+    addresses.find((address) =>
+      prefixes.some((prefix) => address.startsWith(prefix))
+    ) ?? null
+  );
+}
+
+export function createWalletStore(
+  providers: WalletProvider[],
+  storage: WalletStorage | null
+) {
+  let state = DISCONNECTED_STATE;
+  let restored = false;
+  let stopWatching: (() => void) | null = null;
+  const listeners = new Set<() => void>();
+
+  function setState(next: Partial<WalletState>) {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener());
+  }
+
+  function findProvider(providerId: string | null) {
+    return providers.find((provider) => provider.id === providerId) ?? null;
+  }
+
+  function save() {
+    try {
+      if (state.status === "connected") {
+        storage?.setItem(
+          STORAGE_KEY,
+          JSON.stringify({
+            providerId: state.providerId,
+            network: state.network,
+            addresses: state.addresses,
+          })
+        );
+      } else {
+        storage?.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error("Failed to store the wallet connection:", error);
+    }
+  }
+
+  function watch(provider: WalletProvider, network: NetworkName) {
+    stopWatching?.();
+    stopWatching = provider.onAccountChange(network, (addresses) => {
+      if (addresses.length === 0) {
+        disconnect();
+        return;
+      }
+      setState({ addresses });
+      save();
+    });
+  }
+
+  // The connection of the previous visit, the wallet is not asked again until it is used
+  function restore() {
+    if (restored) return;
+    restored = true;
+    try {
+      const stored = storage?.getItem(STORAGE_KEY);
+      if (!stored) return;
+      const { providerId, network, addresses }: StoredConnection =
+        JSON.parse(stored);
+      const provider = findProvider(providerId);
+      if (
+        !provider ||
+        !network ||
+        !Array.isArray(addresses) ||
+        addresses.length === 0
+      ) {
+        storage?.removeItem(STORAGE_KEY);
+        return;
+      }
+      setState({ status: "connected", providerId, network, addresses });
+      watch(provider, network);
+    } catch (error) {
+      console.error("Failed to restore the wallet connection:", error);
+    }
+  }
+
+  async function connect(providerId: string, network: NetworkName) {
+    const provider = findProvider(providerId);
+    if (!provider) throw new Error(`Unknown wallet ${providerId}`);
+
+    setState({ status: "connecting", error: null });
+    try {
+      const result = await provider.getAddresses(network);
+      if (result.status === "cancelled") {
+        setState({ ...DISCONNECTED_STATE, isPickerOpen: state.isPickerOpen });
+        return false;
+      }
+      if (!findStxAddress(result.addresses, network)) {
+        throw new Error(`${provider.name} did not share a Stacks address`);
+      }
+      setState({
+        status: "connected",
+        providerId,
+        network,
+        addresses: result.addresses,
+        isPickerOpen: false,
+      });
+      save();
+      watch(provider, network);
+      return true;
+    } catch (error) {
+      console.error(`Failed to connect ${provider.name}:`, error);
+      setState({
+        ...DISCONNECTED_STATE,
+        isPickerOpen: state.isPickerOpen,
+        error: (error as Error).message,
+      });
+      return false;
+    }
+  }
+
+  function disconnect() {
+    findProvider(state.providerId)?.disconnect?.();
+    stopWatching?.();
+    stopWatching = null;
+    setState(DISCONNECTED_STATE);
+    save();
+  }
+
+  async function callContract(call: WalletContractCall) {
+    restore();
+    const provider = findProvider(state.providerId);
+    if (state.status !== "connected" || !provider) {
+      throw new Error("Connect a wallet first");
+    }
+    return provider.callContract(call);
+  }
+
+  return {
+    providers,
+    getState: () => state,
+    subscribe(listener: () => void) {
+      restore();
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    openPicker: () => setState({ isPickerOpen: true, error: null }),
+    closePicker: () => setState({ isPickerOpen: false, error: null }),
+    connect,
+    disconnect,
+    callContract,
+  };
+}
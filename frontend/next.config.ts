@@ -1,7 +1,24 @@
 import type { NextConfig } from "next";
 
+// Names the cache of the service worker, so every build starts with a fresh app shell
+const buildId =
+  process.env.BUILD_ID ??
+  process.env.VERCEL_GIT_COMMIT_SHA ??
+  Date.now().toString(36);
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
+  async headers() {
+    return [
+      {
+        // Browsers have to see a new service worker as soon as it is deployed
+        source: "/sw.js",
+        headers: [{ key: "Cache-Control", value: "no-cache" }],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
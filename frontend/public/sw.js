@@ -0,0 +1,99 @@
+// Service worker of the app shell. Pages are loaded from the network first and fall back to the
+// last copy when offline, built assets are served from the cache since their names change with
+// every build. Other requests go straight to the network, and API responses are never cached
+// here, the lobby keeps games in IndexedDB instead (lib/game-store.ts).
+// Every build registers the worker with its own build id, see components/service-worker.tsx,
+// so the cache of an older build is dropped once the new worker activates.
+const CACHE_PREFIX = "tic-tac-toe-shell-";
+const BUILD_ID = new URL(self.location.href).searchParams.get("build") ?? "dev";
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg"];
+// Pages and assets beyond the shell, the oldest ones are dropped first
+const MAX_ENTRIES = 100;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME
+            )
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+function isShell(url) {
+  return SHELL.includes(new URL(url).pathname);
+}
+
+// Cache keys are listed in the order they were added
+async function trim(cache) {
+  const keys = (await cache.keys()).filter((key) => !isShell(key.url));
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - MAX_ENTRIES))
+      .map((key) => cache.delete(key))
+  );
+}
+
+async function store(cache, request, response) {
+  await cache.put(request, response);
+  await trim(cache);
+}
+
+async function networkFirst(event) {
+  const { request } = event;
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) event.waitUntil(store(cache, request, response.clone()));
+    return response;
+  } catch (error) {
+    // Pages that were never visited fall back to the lobby
+    const cached =
+      (await cache.match(request)) ??
+      (request.mode === "navigate" ? await cache.match("/") : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(event) {
+  const { request } = event;
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) event.waitUntil(store(cache, request, response.clone()));
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(event));
+  } else if (request.mode === "navigate" || isShell(request.url)) {
+    event.respondWith(networkFirst(event));
+  }
+});
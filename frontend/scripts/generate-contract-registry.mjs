@@ -0,0 +1,163 @@
+// Generates lib/contract-registry.ts for every frontend from the Clarinet deployment plans.
+// Run it after a redeploy with `npm run contracts:generate`.
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join, relative } from "path";
+import { fileURLToPath } from "url";
+import { parse } from "yaml";
+
+const repoRoot = join(dirname(fileURLToPath(import.meta.url)), "../..");
+
+// Clarinet projects whose contracts are registered
+const PROJECTS = [
+  ".",
+  "tictactoe",
+  "token-tutorial/token_clarity",
+  "DAO-voting",
+  "hello-stacks",
+];
+
+// Frontends that receive a copy of the generated registry
+const OUTPUTS = [
+  "frontend/lib/contract-registry.ts",
+  "new_frontend/frontend/lib/contract-registry.ts",
+  "new_frontend/frontend/newnew/frontend/lib/contract-registry.ts",
+];
+
+// Simnet plans describe what `clarinet devnet start` deploys, with the same deployer
+const PLAN_NETWORKS = {
+  simnet: "devnet",
+  devnet: "devnet",
+  testnet: "testnet",
+  mainnet: "mainnet",
+};
+
+const registry = { devnet: {}, testnet: {}, mainnet: {} };
+
+function register(network, name, address, source) {
+  const existing = registry[network][name];
+  if (existing && existing.address !== address) {
+    throw new Error(
+      `${name} is deployed by both ${existing.address} and ${address} on ${network} (${source})`
+    );
+  }
+  registry[network][name] = { address, name };
+}
+
+function registerPlan(file) {
+  const source = relative(repoRoot, file);
+  const plan = parse(readFileSync(file, "utf8"));
+  const network = PLAN_NETWORKS[plan.network];
+  if (!network) throw new Error(`Unknown network "${plan.network}" in ${source}`);
+
+  for (const batch of plan.plan?.batches ?? []) {
+    for (const transaction of batch.transactions ?? []) {
+      const publish =
+        transaction["contract-publish"] ??
+        transaction["emulated-contract-publish"];
+      if (!publish) continue;
+      register(
+        network,
+        publish["contract-name"],
+        publish["expected-sender"] ?? publish["emulated-sender"],
+        source
+      );
+    }
+  }
+}
+
+// Projects without deployment plans are registered for devnet from Clarinet.toml,
+// deployed by the deployer account of settings/Devnet.toml like `clarinet devnet start` does
+function registerManifest(projectDir) {
+  const source = relative(repoRoot, join(projectDir, "Clarinet.toml"));
+  const manifest = readFileSync(join(projectDir, "Clarinet.toml"), "utf8");
+  const devnetSettings = readFileSync(
+    join(projectDir, "settings/Devnet.toml"),
+    "utf8"
+  );
+  const deployer = devnetSettings.match(
+    /\[accounts\.deployer\][^[]*?#\s*stx_address:\s*(\w+)/
+  )?.[1];
+  if (!deployer) throw new Error(`No deployer address found for ${source}`);
+
+  for (const [, name] of manifest.matchAll(/^\[contracts\.([\w-]+)\]/gm)) {
+    register("devnet", name, deployer, source);
+  }
+}
+
+for (const project of PROJECTS) {
+  const projectDir = join(repoRoot, project);
+  const deploymentsDir = join(projectDir, "deployments");
+  const plans = existsSync(deploymentsDir)
+    ? readdirSync(deploymentsDir).filter((file) => file.endsWith(".yaml"))
+    : [];
+
+  if (plans.length === 0) {
+    registerManifest(projectDir);
+    continue;
+  }
+  for (const plan of plans.sort()) {
+    registerPlan(join(deploymentsDir, plan));
+  }
+}
+
+function sortedEntries(contracts) {
+  return Object.fromEntries(
+    Object.entries(contracts).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+const contractIds = [
+  ...new Set(Object.values(registry).flatMap(Object.keys)),
+].sort((a, b) => a.localeCompare(b));
+
+const data = JSON.stringify(
+  {
+    devnet: sortedEntries(registry.devnet),
+    testnet: sortedEntries(registry.testnet),
+    mainnet: sortedEntries(registry.mainnet),
+  },
+  null,
+  2
+);
+
+const source = `// This file is generated by frontend/scripts/generate-contract-registry.mjs from the
+// Clarinet deployment plans. Do not edit it by hand, run \`npm run contracts:generate\` instead.
+
+export type RegistryNetwork = "devnet" | "testnet" | "mainnet";
+
+export type ContractId =
+${contractIds.map((id) => `  | ${JSON.stringify(id)}`).join("\n")};
+
+export type ContractDeployment = {
+  address: string;
+  name: string;
+};
+
+export const CONTRACT_DEPLOYMENTS: Record<
+  RegistryNetwork,
+  Partial<Record<ContractId, ContractDeployment>>
+> = ${data};
+
+// Returns the deployment of a contract, or null if it is not deployed on the network
+export function findContract(network: RegistryNetwork, contractId: ContractId) {
+  return CONTRACT_DEPLOYMENTS[network][contractId] ?? null;
+}
+
+export function getContract(network: RegistryNetwork, contractId: ContractId) {
+  const deployment = findContract(network, contractId);
+  if (!deployment) {
+    throw new Error(\`\${contractId} is not deployed on \${network}\`);
+  }
+  return deployment;
+}
+
+// Fully qualified contract principal, e.g. ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.tic-tac-toe
+export function contractPrincipal(deployment: ContractDeployment) {
+  return \`\${deployment.address}.\${deployment.name}\`;
+}
+`;
+
+for (const output of OUTPUTS) {
+  writeFileSync(join(repoRoot, output), source);
+  console.log(`Wrote ${output}`);
+}
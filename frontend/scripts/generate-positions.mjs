@@ -0,0 +1,91 @@
+// Generates tests/fixtures/positions.json, the table tests/analysis.test.ts checks the solver
+// against. It is a plain minimax search on its own, so a bug in lib/solver.ts does not end up in
+// the table as well. Run it with `npm run positions:generate`.
+import { writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const output = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "../tests/fixtures/positions.json"
+);
+
+const LINES = [
+  [0, 1, 2],
+  [3, 4, 5],
+  [6, 7, 8],
+  [0, 3, 6],
+  [1, 4, 7],
+  [2, 5, 8],
+  [0, 4, 8],
+  [2, 4, 6],
+];
+
+// Boards are strings of "x", "o" and "." for the nine cells, x moves first
+function winner(board) {
+  for (const [a, b, c] of LINES) {
+    if (board[a] !== "." && board[a] === board[b] && board[a] === board[c]) {
+      return board[a];
+    }
+  }
+  return null;
+}
+
+function isOver(board) {
+  return winner(board) !== null || !board.includes(".");
+}
+
+function turn(board) {
+  const count = (cell) => [...board].filter((value) => value === cell).length;
+  return count("x") === count("o") ? "x" : "o";
+}
+
+function play(board, index) {
+  return board.slice(0, index) + turn(board) + board.slice(index + 1);
+}
+
+// The outcome for the side to move: 1 win, 0 draw, -1 loss
+const values = new Map();
+function value(board) {
+  if (values.has(board)) return values.get(board);
+  let result;
+  if (winner(board) !== null) {
+    // The previous move won
+    result = -1;
+  } else if (!board.includes(".")) {
+    result = 0;
+  } else {
+    result = -1;
+    for (let index = 0; index < 9; index++) {
+      if (board[index] === ".") {
+        result = Math.max(result, -value(play(board, index)));
+      }
+    }
+  }
+  values.set(board, result);
+  return result;
+}
+
+// Every reachable position where the game is not over
+const positions = new Set();
+function visit(board) {
+  if (positions.has(board) || isOver(board)) return;
+  positions.add(board);
+  for (let index = 0; index < 9; index++) {
+    if (board[index] === ".") visit(play(board, index));
+  }
+}
+visit(".........");
+
+const OUTCOMES = { 1: "w", 0: "d", [-1]: "l" };
+const table = {};
+for (const board of [...positions].sort()) {
+  table[board] = [...board]
+    .map((cell, index) =>
+      cell === "." ? OUTCOMES[-value(play(board, index))] : "-"
+    )
+    .join("");
+}
+
+writeFileSync(output, `${JSON.stringify(table, null, 2)}\n`);
+console.log(`Wrote ${positions.size} positions to ${output}`);
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateStacksAddress } from '@stacks/transactions';
+import { getCachedBalances } from '@/lib/balance-cache';
+import { serializeBalances } from '@/lib/balances';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get('address');
+  const refresh = searchParams.get('refresh') === '1';
+
+  if (!address) {
+    return NextResponse.json({ error: 'Address parameter is required' }, { status: 400 });
+  }
+  if (!validateStacksAddress(address)) {
+    return NextResponse.json({ error: 'Invalid Stacks address' }, { status: 400 });
+  }
+
+  try {
+    const { balances, stale, error } = await getCachedBalances(address, { refresh });
+    return NextResponse.json(
+      serializeBalances({ ...balances, stale, ...(error ? { error } : {}) })
+    );
+  } catch (error) {
+    console.error('Error fetching balances:', error);
+    return NextResponse.json({ error: 'Could not fetch balances' }, { status: 502 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { parseGameId } from '@/lib/contract';
+import { getCachedGameReplay } from '@/lib/game-cache';
+import { serializeReplay } from '@/lib/replay';
+
+type Params = Promise<{ gameId: string }>;
+
+export async function GET(_request: Request, { params }: { params: Params }) {
+  const { gameId: value } = await params;
+  const gameId = parseGameId(value);
+  if (gameId === null) {
+    return NextResponse.json({ error: 'Invalid game id' }, { status: 400 });
+  }
+
+  try {
+    const steps = await getCachedGameReplay(gameId);
+    return NextResponse.json({ steps: serializeReplay(steps) });
+  } catch (error) {
+    console.error(`Error fetching the replay of game ${gameId}:`, error);
+    return NextResponse.json({ error: 'Could not fetch the replay' }, { status: 502 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseGameId, serializeGame } from '@/lib/contract';
+import { getCachedGame } from '@/lib/game-cache';
+
+type Params = Promise<{ gameId: string }>;
+
+export async function GET(request: NextRequest, { params }: { params: Params }) {
+  const { searchParams } = new URL(request.url);
+  const refresh = searchParams.get('refresh') === '1';
+  const { gameId: value } = await params;
+  const gameId = parseGameId(value);
+  if (gameId === null) {
+    return NextResponse.json({ error: 'Invalid game id' }, { status: 400 });
+  }
+
+  try {
+    const game = await getCachedGame(gameId, { refresh });
+    if (!game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    return NextResponse.json({ game: serializeGame(game) });
+  } catch (error) {
+    console.error(`Error fetching game ${gameId}:`, error);
+    return NextResponse.json({ error: 'Could not fetch game' }, { status: 502 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateStacksAddress } from '@stacks/transactions';
+import { GAMES_PAGE_SIZE, MAX_GAMES_PER_REQUEST, parseGameId, serializeGames } from '@/lib/contract';
+import { getCachedGames, getCachedGamesPage, queryCachedGames } from '@/lib/game-cache';
+import { GameQuery, parseGameQuery } from '@/lib/game-query';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const ids = searchParams.get('ids');
+  const cursor = searchParams.get('cursor');
+  const limit = searchParams.get('limit');
+
+  try {
+    // Fetch specific games, e.g. to retry games that failed on an earlier page
+    if (ids !== null) {
+      const gameIds = ids.split(',').map(parseGameId);
+      if (gameIds.some((gameId) => gameId === null)) {
+        return NextResponse.json({ error: 'Invalid ids parameter' }, { status: 400 });
+      }
+      if (gameIds.length > MAX_GAMES_PER_REQUEST) {
+        return NextResponse.json(
+          { error: `At most ${MAX_GAMES_PER_REQUEST} ids can be requested at once` },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(serializeGames(await getCachedGames(gameIds as number[])));
+    }
+
+    // Filtered and sorted games of the lobby, see parseGameQuery for the parameters.
+    // player is the address that personal filters like status=mine and myTurn=1 are matched with.
+    if (searchParams.has('page')) {
+      let query: GameQuery;
+      try {
+        query = parseGameQuery(searchParams);
+      } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+      }
+      const player = searchParams.get('player');
+      if (player !== null && !validateStacksAddress(player)) {
+        return NextResponse.json({ error: 'Invalid player parameter' }, { status: 400 });
+      }
+      const result = await queryCachedGames(query, player);
+      return NextResponse.json(serializeGames(result));
+    }
+
+    const parsedCursor = cursor === null ? null : parseGameId(cursor);
+    if (cursor !== null && parsedCursor === null) {
+      return NextResponse.json({ error: 'Invalid cursor parameter' }, { status: 400 });
+    }
+
+    const parsedLimit = limit === null ? GAMES_PAGE_SIZE : parseGameId(limit);
+    if (!parsedLimit || parsedLimit > MAX_GAMES_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `Limit must be between 1 and ${MAX_GAMES_PER_REQUEST}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(serializeGames(await getCachedGamesPage(parsedCursor, parsedLimit)));
+  } catch (error) {
+    console.error('Error fetching games:', error);
+    return NextResponse.json({ error: 'Could not fetch games' }, { status: 502 });
+  }
+}
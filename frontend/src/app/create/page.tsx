@@ -1,17 +1,73 @@
 "use client";
 
 import { GameBoard } from "@/components/game-board";
+import { useNetwork } from "@/hooks/use-network";
 import { useStacks } from "@/hooks/use-stacks";
-import { EMPTY_BOARD, Move } from "@/lib/contract";
-import { formatStx, parseStx } from "@/lib/stx-utils";
-import { useState } from "react";
+import { EMPTY_BOARD, Move, supportsChallenges } from "@/lib/contract";
+import { formatStx, getAmountError, parseStx } from "@/lib/amount";
+import { getStxBalanceError } from "@/lib/balances";
+import { openGameStore } from "@/lib/game-store";
+import { isNetworkAddress } from "@/lib/network";
+import { getRecentOpponents } from "@/lib/player-stats";
+import { useEffect, useState } from "react";
 
 export default function CreateGame() {
-  const { stxBalance, userData, connectWallet, handleCreateGame } = useStacks();
+  const { balances, balanceError, address, connectWallet, handleCreateGame } =
+    useStacks();
+  const network = useNetwork();
 
-  const [betAmount, setBetAmount] = useState<number | "">(0);
+  // The bet is kept as typed and only converted to microSTX when the game is created
+  const [betAmount, setBetAmount] = useState("");
   // When creating a new game, the initial board is entirely empty
   const [board, setBoard] = useState(EMPTY_BOARD);
+  // Left empty for a game anyone can join, otherwise only this address can join
+  const [opponent, setOpponent] = useState("");
+  const [recentOpponents, setRecentOpponents] = useState<string[]>([]);
+  // Contracts deployed before challenges were added can only create open games
+  const [canChallenge, setCanChallenge] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    supportsChallenges(network)
+      .then((supported) => {
+        if (!cancelled) setCanChallenge(supported);
+      })
+      .catch((error) =>
+        console.error("Failed to read the contract interface:", error)
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [network]);
+
+  // Suggest the players of the games stored in this browser by the lobby
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+    openGameStore(network.name)
+      .getGames()
+      .then((games) => {
+        if (!cancelled) setRecentOpponents(getRecentOpponents(address, games));
+      })
+      .catch((error) => console.error("Failed to read stored games:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [address, network.name]);
+
+  // Without balances the bet is left for the wallet to reject
+  const betError =
+    getAmountError(betAmount) ??
+    (balances && getStxBalanceError(parseStx(betAmount), balances.stx));
+
+  const invitedOpponent = canChallenge ? opponent.trim() : "";
+  const opponentError = !invitedOpponent
+    ? null
+    : !isNetworkAddress(invitedOpponent, network.name)
+      ? `Enter a valid ${network.name} Stacks address`
+      : invitedOpponent === address
+        ? "You cannot challenge yourself"
+        : null;
 
   function onCellClick(index: number) {
     // Update the board to be the empty board + the move played by the user
@@ -22,44 +78,42 @@ export default function CreateGame() {
   }
 
   async function onCreateGame() {
-    console.log("onCreateGame called"); // Debug log
-    
     // Validate bet amount
-    const numericBetAmount = typeof betAmount === "string" ? parseFloat(betAmount) : betAmount;
-    console.log("Bet amount validation:", { betAmount, numericBetAmount }); // Debug log
-    
-    if (!numericBetAmount || numericBetAmount <= 0) {
+    const amountError = getAmountError(betAmount);
+    if (amountError) {
+      window.alert(amountError);
+      return;
+    }
+    const parsedBetAmount = parseStx(betAmount);
+    if (parsedBetAmount <= 0n) {
       window.alert("Please enter a valid bet amount greater than 0");
       return;
     }
+    const fundsError =
+      balances && getStxBalanceError(parsedBetAmount, balances.stx);
+    if (fundsError) {
+      window.alert(fundsError);
+      return;
+    }
+    if (opponentError) {
+      window.alert(opponentError);
+      return;
+    }
 
     // Find the moveIndex (i.e. the cell) where the user played their move
     const moveIndex = board.findIndex((cell) => cell !== Move.EMPTY);
-    console.log("Move validation:", { board, moveIndex }); // Debug log
-    
     if (moveIndex === -1) {
       window.alert("Please make a move on the board first by clicking on any cell");
       return;
     }
 
-    const move = Move.X;
-    const parsedBetAmount = parseStx(numericBetAmount);
-    console.log("Creating game with:", { 
-      betAmount: numericBetAmount, 
-      parsedBetAmount, 
-      moveIndex, 
-      move, 
-      userData: !!userData 
-    }); // Enhanced debug log
-    
-    try {
-      // Trigger the onchain transaction popup
-      await handleCreateGame(parsedBetAmount, moveIndex, move);
-      console.log("handleCreateGame completed successfully");
-    } catch (error) {
-      console.error("Error in handleCreateGame:", error);
-      window.alert("Failed to create game: " + (error as Error).message);
-    }
+    // Trigger the onchain transaction popup, errors are reported by handleCreateGame
+    await handleCreateGame(
+      parsedBetAmount,
+      moveIndex,
+      Move.X,
+      invitedOpponent || null
+    );
   }
 
   return (
@@ -82,34 +136,74 @@ export default function CreateGame() {
         <div className="flex items-center gap-2 w-full">
           <span className="">Bet: </span>
           <input
-            type="number"
-            step="0.1"
-            min="0"
+            type="text"
+            inputMode="decimal"
             className="w-full rounded bg-gray-800 px-1"
             placeholder="0"
-            value={betAmount === 0 ? "" : betAmount}
-            onChange={(e) => {
-              const value = e.target.value;
-              if (value === "") {
-                setBetAmount("");
-              } else {
-                const numValue = parseFloat(value);
-                setBetAmount(isNaN(numValue) ? "" : numValue);
-              }
-            }}
+            value={betAmount}
+            onChange={(e) => setBetAmount(e.target.value)}
           />
-          <div
-            className="text-xs px-1 py-0.5 cursor-pointer hover:bg-gray-700 bg-gray-600 border border-gray-600 rounded"
+          <button
+            type="button"
+            className="text-xs px-1 py-0.5 hover:bg-gray-700 bg-gray-600 border border-gray-600 rounded disabled:opacity-50"
+            disabled={!balances}
             onClick={() => {
-              const maxAmount = formatStx(stxBalance);
-              setBetAmount(maxAmount);
+              if (!balances) return;
+              setBetAmount(formatStx(balances.stx.available));
             }}
           >
             Max
-          </div>
+          </button>
         </div>
 
-        {userData ? (
+        {betAmount !== "" && betError && (
+          <span className="text-sm text-red-500">{betError}</span>
+        )}
+
+        {balances && (
+          <span className="text-sm text-gray-500">
+            Available: {formatStx(balances.stx.available)} STX
+            {balances.stx.locked > 0n &&
+              ` (${formatStx(balances.stx.locked)} STX locked)`}
+            {balances.stale && ", may be out of date"}
+          </span>
+        )}
+        {address && balanceError && (
+          <span className="text-sm text-red-500">
+            Could not load your balance: {balanceError}
+          </span>
+        )}
+
+        {canChallenge && (
+          <div className="flex items-center gap-2 w-full">
+            <span className="">Opponent: </span>
+            <input
+              type="text"
+              list="recent-opponents"
+              className="w-full rounded bg-gray-800 px-1"
+              placeholder="Anyone can join"
+              value={opponent}
+              onChange={(e) => setOpponent(e.target.value)}
+            />
+            <datalist id="recent-opponents">
+              {recentOpponents.map((player) => (
+                <option key={player} value={player} />
+              ))}
+            </datalist>
+          </div>
+        )}
+
+        {opponentError ? (
+          <span className="text-sm text-red-500">{opponentError}</span>
+        ) : (
+          invitedOpponent && (
+            <span className="text-sm text-gray-500">
+              Only this player can join the game
+            </span>
+          )
+        )}
+
+        {address ? (
           <button
             type="button"
             className="bg-blue-500 text-white px-4 py-2 rounded"
@@ -1,23 +1,49 @@
+import { GameReplay } from "@/components/game-replay";
 import { PlayGame } from "@/components/play-game";
-import { getGame } from "@/lib/contract";
+import { Game, isGameFinished, parseGameId } from "@/lib/contract";
+import { getCachedGame } from "@/lib/game-cache";
+import { abbreviateAddress } from "@/lib/stx-utils";
+import { notFound } from "next/navigation";
 
 type Params = Promise<{ gameId: string }>;
 
+function statusDescription(game: Game) {
+  switch (game.status) {
+    case "waiting":
+      return "Waiting for an opponent to join";
+    case "in-progress":
+      return "Play the game with your opponent";
+    case "won":
+      return game.winner ? `Won by ${abbreviateAddress(game.winner)}` : "Won";
+    case "draw":
+      return "Ended in a draw, both bets were refunded";
+  }
+}
+
 export default async function GamePage({ params }: { params: Params }) {
-  const gameId = (await params).gameId;
-  const game = await getGame(parseInt(gameId));
+  const gameId = parseGameId((await params).gameId);
+  if (gameId === null) notFound();
+
+  const game = await getCachedGame(gameId).catch((error) => {
+    console.error(`Failed to fetch game ${gameId}:`, error);
+    return null;
+  });
   if (!game) return <div>Game not found</div>;
 
   return (
     <section className="flex flex-col items-center py-20">
       <div className="text-center mb-20">
         <h1 className="text-4xl font-bold">Game #{gameId}</h1>
-        <span className="text-sm text-gray-500">
-          Play the game with your opponent
-        </span>
+        <span className="text-sm text-gray-500">{statusDescription(game)}</span>
       </div>
 
       <PlayGame game={game} />
+
+      {isGameFinished(game) && (
+        <div className="mt-20">
+          <GameReplay gameId={game.id} />
+        </div>
+      )}
     </section>
   );
-}
\ No newline at end of file
+}
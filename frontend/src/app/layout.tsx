@@ -1,6 +1,11 @@
 import type { Metadata } from "next";
 import "./globals.css";
 import { Navbar } from "@/components/navbar";
+import { NetworkProvider } from "@/hooks/use-network";
+import { StacksProvider } from "@/hooks/use-stacks";
+import { TransactionToasts } from "@/components/transaction-toasts";
+import { WalletPicker } from "@/components/wallet-picker";
+import { ServiceWorker } from "@/components/service-worker";
 
 export const metadata: Metadata = {
   title: "Tic Tac Toe",
@@ -15,8 +20,15 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body>
-        <Navbar />
-        {children}
+        <NetworkProvider>
+          <StacksProvider>
+            <Navbar />
+            {children}
+            <TransactionToasts />
+            <WalletPicker />
+          </StacksProvider>
+        </NetworkProvider>
+        <ServiceWorker />
       </body>
     </html>
   );
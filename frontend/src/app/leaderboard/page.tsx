@@ -0,0 +1,29 @@
+import { Leaderboard } from "@/components/leaderboard";
+import { getCachedAllGames } from "@/lib/game-cache";
+import { computeRatings } from "@/lib/ratings";
+
+export const dynamic = "force-dynamic";
+
+export default async function LeaderboardPage() {
+  const result = await getCachedAllGames().catch((error) => {
+    console.error("Failed to fetch games:", error);
+    return null;
+  });
+  if (!result) return <div>Could not load games, please try again later</div>;
+
+  return (
+    <section className="flex flex-col items-center py-20">
+      <div className="text-center mb-20">
+        <h1 className="text-4xl font-bold">Leaderboard</h1>
+        <span className="text-sm text-gray-500">
+          Elo ratings from every finished game
+        </span>
+      </div>
+
+      <Leaderboard
+        ratings={computeRatings(result.games)}
+        failedGameIds={result.failedGameIds}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+
+// Lets browsers install the app, public/sw.js keeps its shell available offline
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Tic Tac Toe",
+    short_name: "Tic Tac Toe",
+    description: "Play Tic Tac Toe on Stacks",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#0a0a0a",
+    theme_color: "#0a0a0a",
+    icons: [
+      {
+        src: "/icon.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+      },
+    ],
+  };
+}
@@ -1,10 +1,38 @@
 import { GamesList } from "@/components/game-list";
-import { getAllGames } from "@/lib/contract";
+import { queryCachedGames } from "@/lib/game-cache";
+import {
+  isPersonalQuery,
+  LobbyResult,
+  lobbyResultKey,
+  parseGameQueryOrDefault,
+} from "@/lib/game-query";
 
 export const dynamic = "force-dynamic";
 
-export default async function Home() {
-  const games = await getAllGames();
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(await searchParams)) {
+    if (typeof value === "string") params.set(name, value);
+  }
+  const query = parseGameQueryOrDefault(params);
+
+  // The server does not know the wallet of the visitor, personal queries are only loaded on the
+  // client. If the games cannot be loaded here, GamesList retries them on the client.
+  let initialResult: LobbyResult | null = null;
+  if (!isPersonalQuery(query)) {
+    try {
+      initialResult = {
+        key: lobbyResultKey(query, null),
+        result: await queryCachedGames(query),
+      };
+    } catch (error) {
+      console.error("Failed to fetch games:", error);
+    }
+  }
 
   return (
     <section className="flex flex-col items-center py-20">
@@ -15,7 +43,7 @@ export default async function Home() {
         </span>
       </div>
 
-      <GamesList games={games} />
+      <GamesList initialResult={initialResult} />
     </section>
   );
-}
\ No newline at end of file
+}
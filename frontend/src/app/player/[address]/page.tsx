@@ -0,0 +1,36 @@
+import { PlayerProfile } from "@/components/player-profile";
+import { getCachedAllGames } from "@/lib/game-cache";
+import { getPlayerStats } from "@/lib/player-stats";
+import { validateStacksAddress } from "@stacks/transactions";
+
+export const dynamic = "force-dynamic";
+
+type Params = Promise<{ address: string }>;
+
+export default async function PlayerPage({ params }: { params: Params }) {
+  const address = (await params).address;
+  if (!validateStacksAddress(address)) return <div>Invalid address</div>;
+
+  const result = await getCachedAllGames().catch((error) => {
+    console.error(`Failed to fetch games of ${address}:`, error);
+    return null;
+  });
+  if (!result) return <div>Could not load games, please try again later</div>;
+
+  return (
+    <section className="flex flex-col items-center py-20">
+      <div className="text-center mb-20">
+        <h1 className="text-4xl font-bold">Player</h1>
+        <span className="text-sm text-gray-500">
+          Game history and statistics
+        </span>
+      </div>
+
+      <PlayerProfile
+        address={address}
+        stats={getPlayerStats(address, result.games)}
+        failedGameIds={result.failedGameIds}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,16 @@
+import { PracticeGame } from "@/components/practice-game";
+
+export default function PracticePage() {
+  return (
+    <section className="flex flex-col items-center py-20">
+      <div className="text-center mb-20">
+        <h1 className="text-4xl font-bold">Practice</h1>
+        <span className="text-sm text-gray-500">
+          Play against the computer, no wallet or STX needed
+        </span>
+      </div>
+
+      <PracticeGame />
+    </section>
+  );
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRateLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+
+// Enough for a player polling their game and browsing the lobby at the same time
+const apiRateLimiter = createRateLimiter({
+  limit: Number(process.env.API_RATE_LIMIT) || 120,
+  windowMs: 60000, // 1 minute
+});
+
+// Number of proxies in front of the app that append to X-Forwarded-For, see getClientIp
+const trustedProxyCount = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+const trustedProxies = Number.isInteger(trustedProxyCount) && trustedProxyCount >= 0 ? trustedProxyCount : 1;
+
+export function middleware(request: NextRequest) {
+  // Clients that can not be told apart all share one count, so dropping the headers does not
+  // get around the limit
+  const clientIp = getClientIp(request.headers, trustedProxies) ?? 'unknown';
+
+  const result = apiRateLimiter.check(clientIp);
+  const headers = rateLimitHeaders(result);
+
+  if (!result.allowed) {
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers });
+  }
+
+  const response = NextResponse.next();
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
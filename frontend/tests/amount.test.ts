@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import {
+  displayStx,
+  formatStx,
+  getAmountError,
+  MICRO_STX_PER_STX,
+  parseStx,
+  STX_DECIMALS,
+  toMicroStx,
+} from "@/lib/amount";
+
+// Largest value a Clarity uint can hold
+const MAX_UINT = 2n ** 128n - 1n;
+
+const microStx = fc.bigInt({ min: 0n, max: MAX_UINT });
+const digits = (minLength: number, maxLength: number) =>
+  fc.string({ unit: fc.constantFrom(..."0123456789"), minLength, maxLength });
+
+describe("STX amounts", () => {
+
+  it("parses decimal amounts exactly", () => {
+    expect(parseStx("0.1")).toBe(100000n);
+    expect(parseStx("1")).toBe(1000000n);
+    expect(parseStx("1.000001")).toBe(1000001n);
+    expect(parseStx(".5")).toBe(500000n);
+    expect(parseStx("2.")).toBe(2000000n);
+    expect(parseStx(" 3.25 ")).toBe(3250000n);
+  });
+
+  it("rejects malformed amounts and amounts with more than 6 decimals", () => {
+    for (const value of ["", ".", "abc", "-1", "1e6", "1.2.3", "1,5"]) {
+      expect(getAmountError(value)).toBe("Enter a valid STX amount");
+      expect(() => parseStx(value)).toThrow();
+    }
+    expect(getAmountError("0.0000001")).toBe(
+      "STX amounts have at most 6 decimal places"
+    );
+  });
+
+  it("formatting and parsing round-trip for any microSTX amount", () => {
+    fc.assert(
+      fc.property(microStx, (amount) => {
+        expect(parseStx(formatStx(amount))).toBe(amount);
+      })
+    );
+  });
+
+  it("parsing and formatting round-trip to the canonical form of an amount", () => {
+    fc.assert(
+      fc.property(digits(1, 30), digits(0, STX_DECIMALS), (whole, fraction) => {
+        const value = fraction ? `${whole}.${fraction}` : whole;
+        const canonicalWhole = whole.replace(/^0+(?=\d)/, "");
+        const canonicalFraction = fraction.replace(/0+$/, "");
+        const canonical = canonicalFraction
+          ? `${canonicalWhole}.${canonicalFraction}`
+          : canonicalWhole;
+
+        expect(getAmountError(value)).toBeNull();
+        expect(formatStx(parseStx(value))).toBe(canonical);
+      })
+    );
+  });
+
+  it("rejects any amount with more decimals than microSTX can hold", () => {
+    fc.assert(
+      fc.property(digits(1, 10), digits(STX_DECIMALS + 1, 20), (whole, fraction) => {
+        expect(getAmountError(`${whole}.${fraction}`)).toBe(
+          "STX amounts have at most 6 decimal places"
+        );
+      })
+    );
+  });
+
+  it("displays amounts with the separators of the locale", () => {
+    expect(displayStx(1234567890000n, { locale: "en-US" })).toBe("1,234,567.89");
+    expect(displayStx(1234567890000n, { locale: "de-DE" })).toBe("1.234.567,89");
+    expect(displayStx(100000n, { locale: "en-US" })).toBe("0.1");
+    expect(displayStx(-2500000n, { locale: "en-US" })).toBe("-2.5");
+  });
+
+  it("rounds displayed amounts half up to the maximum number of decimals", () => {
+    const options = { locale: "en-US", maximumFractionDigits: 2 };
+    expect(displayStx(1004999n, options)).toBe("1");
+    expect(displayStx(1005000n, options)).toBe("1.01");
+    expect(displayStx(999999n, options)).toBe("1");
+    expect(displayStx(-4000n, options)).toBe("0");
+  });
+
+  it("displayed amounts parse back to the same amount once grouping is removed", () => {
+    fc.assert(
+      fc.property(microStx, (amount) => {
+        const displayed = displayStx(amount, { locale: "en-US" });
+        expect(parseStx(displayed.replace(/,/g, ""))).toBe(amount);
+      })
+    );
+  });
+
+  it("reads microSTX amounts sent as JSON strings", () => {
+    expect(toMicroStx("1000000")).toBe(MICRO_STX_PER_STX);
+    expect(toMicroStx(42)).toBe(42n);
+    expect(() => toMicroStx("1.5")).toThrow("Invalid microSTX amount: 1.5");
+  });
+
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { Move } from "@/lib/contract";
+import { analyzePosition, getTurn, Outcome } from "@/lib/solver";
+import positions from "./fixtures/positions.json";
+
+const { X, O, EMPTY: _ } = Move;
+
+// Every reachable position where the game is not over, written as cells of "x", "o" and ".",
+// mapped to the outcome of each cell for the side to move: "w" win, "d" draw, "l" loss and
+// "-" for cells that are taken. Generated by scripts/generate-positions.mjs with a plain minimax
+// search that does not share any code with the solver.
+const table = positions as Record<string, string>;
+
+const CELLS: Record<string, Move> = { x: X, o: O, ".": _ };
+const OUTCOMES: Record<string, Outcome | null> = {
+  w: "win",
+  d: "draw",
+  l: "loss",
+  "-": null,
+};
+
+function parseBoard(key: string) {
+  return [...key].map((cell) => CELLS[cell]);
+}
+
+describe("Position analysis", () => {
+
+  it("covers every reachable position that is not finished", () => {
+    expect(Object.keys(table)).toHaveLength(4520);
+  });
+
+  it("values every cell of every reachable position like the table", () => {
+    for (const [key, values] of Object.entries(table)) {
+      const board = parseBoard(key);
+      const analysis = analyzePosition(board, getTurn(board));
+
+      expect(analysis?.cells).toEqual([...values].map((value) => OUTCOMES[value]));
+    }
+  });
+
+  it("highlights moves that keep the best outcome", () => {
+    const rank: Record<string, number> = { w: 2, d: 1, l: 0 };
+    for (const [key, values] of Object.entries(table)) {
+      const board = parseBoard(key);
+      const best = Math.max(...[...values].map((value) => rank[value] ?? -1));
+      const analysis = analyzePosition(board, getTurn(board));
+
+      for (const index of analysis?.bestMoves ?? []) {
+        expect(rank[values[index]]).toBe(best);
+      }
+      expect(analysis?.outcome).toBe(OUTCOMES[["l", "d", "w"][best]]);
+    }
+  });
+
+  it("shows the block as the only move that does not lose", () => {
+    const analysis = analyzePosition([X, _, _, O, O, _, X, _, _], X);
+
+    expect(analysis?.cells).toEqual([null, "loss", "loss", null, null, "draw", null, "loss", "loss"]);
+    expect(analysis?.bestMoves).toEqual([5]);
+    expect(analysis?.outcome).toBe("draw");
+  });
+
+  it("analyses the side to move given by the game", () => {
+    const analysis = analyzePosition([X, _, _, _, _, _, _, _, _], O);
+
+    expect(analysis?.outcome).toBe("draw");
+    expect(analysis?.bestMoves).toEqual([4]);
+    expect(analysis?.cells[0]).toBeNull();
+    expect(analyzePosition([X, X, X, O, O, _, _, _, _], O)).toBeNull();
+  });
+
+});
@@ -0,0 +1,180 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { Cl, serializeCV } from "@stacks/transactions";
+import {
+  deserializeBalances,
+  fetchBalances,
+  getStxBalanceError,
+  serializeBalances,
+} from "@/lib/balances";
+import { getCachedBalances } from "@/lib/balance-cache";
+import { getNetworkConfig } from "@/lib/network";
+import { FixtureServer, startFixtureServer } from "./fixtures/stacks-api-server";
+
+const ALICE = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+const BALANCES_PATH = `/extended/v1/address/${ALICE}/balances`;
+const DAO_TOKEN_PATH = `/v2/contracts/call-read/${DEPLOYER}/DaoToken`;
+
+function apiBalances(balance: string, locked = "0", tokens = {}) {
+  return {
+    stx: { balance, locked, total_sent: "0", total_received: balance },
+    fungible_tokens: tokens,
+    non_fungible_tokens: {},
+  };
+}
+
+function readOnlyResult(value: bigint) {
+  return { okay: true, result: `0x${serializeCV(Cl.uint(value))}` };
+}
+
+// Alice stacks 3 of her 10 STX, holds 2.5 DDZ and has 40 of 100 DAOGOV locked in votes
+function aliceRoutes(): Record<string, unknown> {
+  return {
+    [BALANCES_PATH]: apiBalances("10000000", "3000000", {
+      [`${DEPLOYER}.simple-token3::workshop-token`]: { balance: "2500000" },
+    }),
+    [`${DAO_TOKEN_PATH}/get-available-tokens`]: readOnlyResult(60000000n),
+    [`${DAO_TOKEN_PATH}/get-locked-tokens`]: readOnlyResult(40000000n),
+  };
+}
+
+describe("account balances", () => {
+  let server: FixtureServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  async function serve(routes: Record<string, unknown>) {
+    server = await startFixtureServer(routes);
+    return getNetworkConfig("devnet", { apiUrl: server.url });
+  }
+
+  it("splits STX and token balances into total, locked and available", async () => {
+    const config = await serve(aliceRoutes());
+
+    const balances = await fetchBalances(ALICE, config);
+
+    expect(balances.address).toBe(ALICE);
+    expect(balances.stx).toEqual({
+      total: 10000000n,
+      locked: 3000000n,
+      available: 7000000n,
+    });
+    expect(balances.tokens).toEqual([
+      {
+        contractId: "simple-token3",
+        principal: `${DEPLOYER}.simple-token3`,
+        symbol: "DDZ",
+        decimals: 6,
+        balance: { total: 2500000n, locked: 0n, available: 2500000n },
+      },
+      {
+        contractId: "DaoToken",
+        principal: `${DEPLOYER}.DaoToken`,
+        symbol: "DAOGOV",
+        decimals: 6,
+        balance: { total: 100000000n, locked: 40000000n, available: 60000000n },
+      },
+    ]);
+  });
+
+  it("reports tokens that can not be read instead of a zero balance", async () => {
+    // The API leaves out tokens the account never held, and DaoToken does not answer
+    const config = await serve({ [BALANCES_PATH]: apiBalances("0") });
+
+    const balances = await fetchBalances(ALICE, config);
+
+    expect(balances.stx).toEqual({ total: 0n, locked: 0n, available: 0n });
+    expect(balances.tokens[0].balance).toEqual({
+      total: 0n,
+      locked: 0n,
+      available: 0n,
+    });
+    expect(balances.tokens[1].balance).toBeUndefined();
+    expect(balances.tokens[1].error).toContain("404");
+  });
+
+  it("leaves out tokens that are not deployed on the network", async () => {
+    server = await startFixtureServer({ [BALANCES_PATH]: apiBalances("1") });
+    const config = getNetworkConfig("testnet", { apiUrl: server.url });
+
+    const balances = await fetchBalances(ALICE, config);
+
+    expect(balances.tokens.map((token) => token.contractId)).toEqual([
+      "simple-token3",
+    ]);
+  });
+
+  it("throws when the STX balance can not be read", async () => {
+    const config = await serve({});
+
+    await expect(fetchBalances(ALICE, config)).rejects.toThrow(
+      "Stacks API returned status 404"
+    );
+  });
+
+  it("serves cached balances and marks them stale when the API fails", async () => {
+    const routes = aliceRoutes();
+    const config = await serve(routes);
+
+    const first = await getCachedBalances(ALICE, { config });
+    expect(first.stale).toBe(false);
+    const requestCount = server!.requests.length;
+
+    // Within the cache duration the API is not asked again
+    const cached = await getCachedBalances(ALICE, { config });
+    expect(cached.balances).toEqual(first.balances);
+    expect(server!.requests).toHaveLength(requestCount);
+
+    delete routes[BALANCES_PATH];
+    const stale = await getCachedBalances(ALICE, { config, refresh: true });
+    expect(stale.stale).toBe(true);
+    expect(stale.error).toContain("404");
+    expect(stale.balances).toEqual(first.balances);
+    expect(server!.requests.length).toBeGreaterThan(requestCount);
+  });
+
+  it("throws when the API fails and nothing is cached", async () => {
+    const config = await serve({});
+
+    await expect(getCachedBalances(ALICE, { config })).rejects.toThrow(
+      "Stacks API returned status 404"
+    );
+  });
+
+  it("round-trips balances through JSON", async () => {
+    const config = await serve(aliceRoutes());
+    const balances = await fetchBalances(ALICE, config);
+
+    const json = JSON.parse(
+      JSON.stringify(serializeBalances({ ...balances, stale: true, error: "down" }))
+    );
+
+    expect(json.stx).toEqual({
+      total: "10000000",
+      locked: "3000000",
+      available: "7000000",
+    });
+    expect(deserializeBalances(json)).toEqual({
+      ...balances,
+      stale: true,
+      error: "down",
+    });
+  });
+
+  it("explains why a bet exceeds the available STX", () => {
+    const stx = { total: 10000000n, locked: 3000000n, available: 7000000n };
+
+    expect(getStxBalanceError(7000000n, stx)).toBeNull();
+    expect(getStxBalanceError(8000000n, stx)).toBe(
+      "Only 7 STX is available, 3 STX is locked"
+    );
+    expect(getStxBalanceError(11000000n, stx)).toBe(
+      "Only 7 STX is available"
+    );
+  });
+
+});
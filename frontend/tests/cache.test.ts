@@ -0,0 +1,363 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  CacheStore,
+  createCache,
+  createFileStore,
+  createMemoryStore,
+  createRedisStore,
+} from "@/lib/cache";
+import {
+  RedisRestServer,
+  startRedisRestServer,
+} from "./fixtures/redis-rest-server";
+
+const NOW = new Date("2025-01-01T00:00:00Z").getTime();
+
+// A loader that counts its calls and resolves once release is called
+function deferredLoader<T>(value: T) {
+  let calls = 0;
+  const releases: (() => void)[] = [];
+  return {
+    get calls() {
+      return calls;
+    },
+    load: () => {
+      calls++;
+      return new Promise<T>((resolve) => releases.push(() => resolve(value)));
+    },
+    release: () => releases.splice(0).forEach((release) => release()),
+  };
+}
+
+describe("createMemoryStore", () => {
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const store = createMemoryStore({ maxEntries: 2 });
+    const entry = (value: number) => ({ value, storedAt: NOW });
+
+    await store.set("a", entry(1), Infinity);
+    await store.set("b", entry(2), Infinity);
+    // Reading a makes b the least recently used entry
+    await store.get("a");
+    await store.set("c", entry(3), Infinity);
+
+    expect(await store.get("a")).toEqual(entry(1));
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("c")).toEqual(entry(3));
+  });
+
+  it("drops entries once their TTL passed", async () => {
+    const store = createMemoryStore();
+    await store.set("a", { value: 1, storedAt: NOW }, 1000);
+
+    vi.setSystemTime(NOW + 999);
+    expect(await store.get("a")).not.toBeNull();
+    vi.setSystemTime(NOW + 1000);
+    expect(await store.get("a")).toBeNull();
+  });
+
+});
+
+describe("createCache", () => {
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves fresh values without loading them again", async () => {
+    const cache = createCache<number>({ name: "test", ttlMs: 1000 });
+    const load = vi.fn(async () => 42);
+
+    expect(await cache.get("a", load)).toEqual({ value: 42, stale: false });
+    vi.setSystemTime(NOW + 999);
+    expect(await cache.get("a", load)).toEqual({ value: 42, stale: false });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await cache.get("a", load, { refresh: true });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves stale values while it revalidates them in the background", async () => {
+    const cache = createCache<number>({
+      name: "test",
+      ttlMs: 1000,
+      staleWhileRevalidateMs: 1000,
+    });
+    await cache.get("a", async () => 1);
+
+    vi.setSystemTime(NOW + 1500);
+    const loader = deferredLoader(2);
+    expect(await cache.get("a", loader.load)).toEqual({
+      value: 1,
+      stale: true,
+    });
+    expect(loader.calls).toBe(1);
+
+    loader.release();
+    await vi.waitFor(async () =>
+      expect(await cache.get("a", loader.load)).toEqual({
+        value: 2,
+        stale: false,
+      })
+    );
+    expect(loader.calls).toBe(1);
+  });
+
+  it("loads values again once they are too old to revalidate", async () => {
+    const cache = createCache<number>({
+      name: "test",
+      ttlMs: 1000,
+      staleWhileRevalidateMs: 1000,
+    });
+    await cache.get("a", async () => 1);
+
+    vi.setSystemTime(NOW + 2000);
+    expect(await cache.get("a", async () => 2)).toEqual({
+      value: 2,
+      stale: false,
+    });
+  });
+
+  it("coalesces concurrent loads of the same key", async () => {
+    const cache = createCache<string>({ name: "test", ttlMs: 1000 });
+    const loader = deferredLoader("value");
+
+    const requests = [
+      cache.get("a", loader.load),
+      cache.get("a", loader.load),
+      cache.get("a", loader.load),
+    ];
+    // Let the requests get past their cache lookup
+    await vi.waitFor(() => expect(loader.calls).toBe(1));
+    loader.release();
+
+    for (const result of await Promise.all(requests)) {
+      expect(result).toEqual({ value: "value", stale: false });
+    }
+    expect(loader.calls).toBe(1);
+  });
+
+  it("does not let a refresh join a load that started before it", async () => {
+    const cache = createCache<number>({ name: "test", ttlMs: 1000 });
+    const before = deferredLoader(1);
+    const after = deferredLoader(2);
+
+    const first = cache.get("a", before.load);
+    await vi.waitFor(() => expect(before.calls).toBe(1));
+    const refreshed = cache.get("a", after.load, { refresh: true });
+    await vi.waitFor(() => expect(after.calls).toBe(1));
+    before.release();
+    after.release();
+
+    expect((await first).value).toBe(1);
+    expect((await refreshed).value).toBe(2);
+  });
+
+  it("lets concurrent refreshes share a load that started after they arrived", async () => {
+    const cache = createCache<number>({ name: "test", ttlMs: 1000 });
+    const loader = deferredLoader(1);
+
+    const refreshes = [1, 2, 3].map(() =>
+      cache.get("a", loader.load, { refresh: true })
+    );
+    await vi.waitFor(() => expect(loader.calls).toBe(1));
+    loader.release();
+
+    for (const result of await Promise.all(refreshes)) {
+      expect(result.value).toBe(1);
+    }
+    expect(loader.calls).toBe(1);
+  });
+
+  it("serves stale values when loading fails, within staleIfErrorMs", async () => {
+    const cache = createCache<number>({
+      name: "test",
+      ttlMs: 1000,
+      staleIfErrorMs: 5000,
+    });
+    const fail = async (): Promise<number> => {
+      throw new Error("API down");
+    };
+    await cache.get("a", async () => 1);
+
+    vi.setSystemTime(NOW + 5999);
+    expect(await cache.get("a", fail)).toEqual({
+      value: 1,
+      stale: true,
+      error: "API down",
+    });
+
+    vi.setSystemTime(NOW + 6000);
+    await expect(cache.get("a", fail)).rejects.toThrow("API down");
+    await expect(cache.get("b", fail)).rejects.toThrow("API down");
+  });
+
+  it("keeps values for the TTL chosen per value, 0 leaves them out", async () => {
+    const cache = createCache<number | null>({
+      name: "test",
+      ttlMs: (value) => (value === null ? 0 : value === 1 ? Infinity : 1000),
+    });
+    const load = vi.fn(async (value: number | null) => value);
+
+    await cache.get("missing", () => load(null));
+    await cache.get("missing", () => load(null));
+    expect(load).toHaveBeenCalledTimes(2);
+
+    await cache.get("final", () => load(1));
+    vi.setSystemTime(NOW + 365 * 24 * 3600 * 1000);
+    expect(await cache.get("final", () => load(2))).toEqual({
+      value: 1,
+      stale: false,
+    });
+  });
+
+  it("stores serialized values and prefixes keys with the cache name", async () => {
+    const store = createMemoryStore();
+    const cache = createCache<bigint>({
+      name: "amounts",
+      ttlMs: 1000,
+      store,
+      serialize: (value) => value.toString(),
+      deserialize: (data) => BigInt(data as string),
+    });
+
+    await cache.get("a", async () => 10n ** 20n);
+
+    expect(await store.get("amounts:a")).toEqual({
+      value: "100000000000000000000",
+      storedAt: NOW,
+    });
+    expect((await cache.get("a", async () => 0n)).value).toBe(10n ** 20n);
+  });
+
+  it("loads values when the store fails", async () => {
+    const broken: CacheStore = {
+      get: async () => {
+        throw new Error("store down");
+      },
+      set: async () => {
+        throw new Error("store down");
+      },
+      delete: async () => {},
+    };
+    const cache = createCache<number>({
+      name: "test",
+      ttlMs: 1000,
+      store: broken,
+    });
+
+    expect(await cache.get("a", async () => 1)).toEqual({
+      value: 1,
+      stale: false,
+    });
+  });
+
+});
+
+describe("persistent stores", () => {
+
+  let directory: string | null = null;
+  let redis: RedisRestServer | null = null;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    await redis?.close();
+    directory = null;
+    redis = null;
+  });
+
+  // The same checks for every store that keeps entries outside of the process
+  async function checkStore(createStore: () => CacheStore) {
+    const entry = { value: { games: [1, 2] }, storedAt: Date.now() };
+    await createStore().set("games:a", entry, 60000);
+    await createStore().set("games:b", entry, Infinity);
+    await createStore().set("games:c", entry, 1);
+
+    // A new store, like after a cold start, sees the entries
+    const store = createStore();
+    expect(await store.get("games:a")).toEqual(entry);
+    expect(await store.get("games:b")).toEqual(entry);
+    expect(await store.get("games:missing")).toBeNull();
+    await vi.waitFor(async () => expect(await store.get("games:c")).toBeNull());
+
+    await store.delete("games:a");
+    expect(await store.get("games:a")).toBeNull();
+  }
+
+  it("keeps entries in files", async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "cache-test-"));
+    const dir = directory;
+
+    await checkStore(() => createFileStore(dir));
+  });
+
+  it("deletes expired files and evicts the least recently used ones", async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "cache-test-"));
+    const store = createFileStore(directory, { maxEntries: 10 });
+    const entry = (value: number) => ({ value, storedAt: NOW });
+
+    await store.set("expired", entry(0), 1);
+    await vi.waitFor(async () => expect(await store.get("expired")).toBeNull());
+    expect(await readdir(directory)).toHaveLength(0);
+
+    for (let i = 0; i < 10; i++) {
+      await store.set(`key${i}`, entry(i), Infinity);
+      // Apart enough for the modification times of the files to tell them apart
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    // Reading key0 makes key1 and key2 the least recently used entries
+    await store.get("key0");
+    await store.set("key10", entry(10), Infinity);
+
+    expect(await readdir(directory)).toHaveLength(9);
+    expect(await store.get("key0")).toEqual(entry(0));
+    expect(await store.get("key1")).toBeNull();
+    expect(await store.get("key2")).toBeNull();
+    expect(await store.get("key3")).toEqual(entry(3));
+    expect(await store.get("key10")).toEqual(entry(10));
+  });
+
+  it("keeps entries in a Redis REST service", async () => {
+    redis = await startRedisRestServer("secret");
+    const url = redis.url;
+
+    await checkStore(() => createRedisStore({ url, token: "secret" }));
+    expect(redis.commands[0]).toEqual([
+      "SET",
+      "games:a",
+      expect.any(String),
+      "PX",
+      60000,
+    ]);
+    // Entries without expiry are stored without PX
+    expect(redis.commands[1]).toHaveLength(3);
+  });
+
+  it("reports Redis errors", async () => {
+    redis = await startRedisRestServer("secret");
+
+    const store = createRedisStore({ url: redis.url, token: "wrong" });
+
+    await expect(store.get("a")).rejects.toThrow(
+      "Redis GET failed: Unauthorized"
+    );
+  });
+
+});
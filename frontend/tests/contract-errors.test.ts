@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  CONTRACT_ERRORS,
+  decodeContractError,
+  getContractError,
+} from "@/lib/contract-errors";
+
+const CONTRACT_PATH = join(
+  __dirname,
+  "../../tictactoe/contracts/tic-tac-toe.clar"
+);
+
+describe("Contract error registry", () => {
+
+  it("matches the ERR_* constants declared in the contract", () => {
+    const source = readFileSync(CONTRACT_PATH, "utf8");
+    const declared = Object.fromEntries(
+      [...source.matchAll(/\(define-constant (ERR_\w+) \(err u(\d+)\)\)/g)].map(
+        ([, name, code]) => [name, parseInt(code)]
+      )
+    );
+    const registered = Object.fromEntries(
+      Object.entries(CONTRACT_ERRORS).map(([name, error]) => [name, error.code])
+    );
+
+    expect(Object.keys(declared).length).toBeGreaterThan(0);
+    expect(registered).toEqual(declared);
+  });
+
+  it("decodes the result of a failed transaction", () => {
+    expect(decodeContractError("(err u104)")).toEqual({
+      name: "ERR_NOT_YOUR_TURN",
+      code: 104,
+      message: CONTRACT_ERRORS.ERR_NOT_YOUR_TURN.message,
+    });
+    expect(decodeContractError("(err u107)")?.name).toBe(
+      "ERR_CANNOT_JOIN_OWN_GAME"
+    );
+    expect(decodeContractError("(err u109)")?.name).toBe(
+      "ERR_CANNOT_CHALLENGE_SELF"
+    );
+  });
+
+  it("does not decode successful or unknown results", () => {
+    expect(decodeContractError("(ok u3)")).toBeNull();
+    expect(decodeContractError("(err u999)")).toBeNull();
+    expect(decodeContractError(null)).toBeNull();
+    expect(getContractError(42)).toBeNull();
+  });
+
+});
@@ -0,0 +1,87 @@
+import {
+  Cl,
+  ClarityValue,
+  cvToValue,
+  deserializeCV,
+  serializeCV,
+} from "@stacks/transactions";
+import { Game } from "@/lib/contract";
+import { NetworkConfig } from "@/lib/network";
+
+export type StoredGame = Omit<Game, "id" | "status">;
+
+const hex = (value: ClarityValue) => `0x${serializeCV(value)}`;
+
+function gameEntry(game: StoredGame | undefined) {
+  if (!game) return Cl.none();
+  return Cl.some(
+    Cl.tuple({
+      "player-one": Cl.standardPrincipal(game["player-one"]),
+      "player-two": game["player-two"]
+        ? Cl.some(Cl.standardPrincipal(game["player-two"]))
+        : Cl.none(),
+      "is-player-one-turn": Cl.bool(game["is-player-one-turn"]),
+      "bet-amount": Cl.uint(game["bet-amount"]),
+      board: Cl.list(game.board.map((cell) => Cl.uint(cell))),
+      winner: game.winner
+        ? Cl.some(Cl.standardPrincipal(game.winner))
+        : Cl.none(),
+      "invited-opponent": game["invited-opponent"]
+        ? Cl.some(Cl.standardPrincipal(game["invited-opponent"]))
+        : Cl.none(),
+    })
+  );
+}
+
+// get-game-status as the contract computes it
+function gameStatus(game: StoredGame | undefined) {
+  if (!game) return Cl.error(Cl.uint(102));
+  const boardFull = game.board.every((cell) => cell !== 0);
+  const status = game.winner
+    ? "finished"
+    : !game["player-two"]
+      ? "waiting-for-player"
+      : boardFull
+        ? "draw"
+        : "in-progress";
+  return Cl.ok(
+    Cl.tuple({
+      status: Cl.stringAscii(status),
+      winner: game.winner
+        ? Cl.some(Cl.standardPrincipal(game.winner))
+        : Cl.none(),
+      "total-prize": Cl.uint(2n * game["bet-amount"]),
+      "is-draw": Cl.bool(!game.winner && boardFull),
+    })
+  );
+}
+
+const gameIdOf = (keyHex: string) => Number(cvToValue(deserializeCV(keyHex)));
+
+// Stacks API routes serving the games map of the tic-tac-toe contract, both through map_entry
+// and through the get-game and get-game-status read-only functions
+export function gameStateRoutes(
+  config: NetworkConfig,
+  games: Map<number, StoredGame>,
+  { mapEntry = true }: { mapEntry?: boolean } = {}
+): Record<string, unknown> {
+  const contract = `${config.contractAddress}/${config.contractName}`;
+  const readOnly =
+    (read: (game: StoredGame | undefined) => ClarityValue) =>
+    (body: string) => {
+      const [key] = JSON.parse(body).arguments;
+      return { okay: true, result: hex(read(games.get(gameIdOf(key)))) };
+    };
+  const mapRoutes = {
+    [`/v2/map_entry/${contract}/games?proof=0`]: (body: string) => ({
+      data: hex(gameEntry(games.get(gameIdOf(JSON.parse(body))))),
+    }),
+  };
+
+  return {
+    ...(mapEntry ? mapRoutes : {}),
+    [`/v2/contracts/call-read/${contract}/get-game`]: readOnly(gameEntry),
+    [`/v2/contracts/call-read/${contract}/get-game-status`]:
+      readOnly(gameStatus),
+  };
+}
@@ -0,0 +1,156 @@
+import { Cl, ClarityValue, cvToString, serializeCV } from "@stacks/transactions";
+import { ApiTransaction } from "@/lib/replay";
+
+// Builders for Stacks API transactions of the tic-tac-toe contract, shaped like the responses of
+// /extended/v1/tx/{tx_id}. Clarity values are serialized the same way the API does.
+
+function encode(value: ClarityValue) {
+  return { hex: `0x${serializeCV(value)}`, repr: cvToString(value) };
+}
+
+let txCount = 0;
+
+function txId() {
+  txCount++;
+  return `0x${txCount.toString(16).padStart(64, "0")}`;
+}
+
+type TransactionOptions = {
+  contractId: string;
+  sender: string;
+  blockHeight: number;
+  txIndex?: number;
+  status?: string;
+  // Leave out the events, like the transaction list endpoint does
+  withoutEvents?: boolean;
+};
+
+function contractCall(
+  functionName: string,
+  args: [string, ClarityValue][],
+  result: ClarityValue,
+  event: ClarityValue,
+  {
+    contractId,
+    sender,
+    blockHeight,
+    txIndex = 0,
+    status = "success",
+    withoutEvents = false,
+  }: TransactionOptions
+): ApiTransaction {
+  return {
+    tx_id: txId(),
+    tx_type: "contract_call",
+    tx_status: status,
+    sender_address: sender,
+    block_height: blockHeight,
+    tx_index: txIndex,
+    tx_result: encode(result),
+    contract_call: {
+      contract_id: contractId,
+      function_name: functionName,
+      function_args: args.map(([name, value]) => ({
+        name,
+        type: "uint",
+        ...encode(value),
+      })),
+    },
+    events:
+      withoutEvents || status !== "success"
+        ? []
+        : [
+            {
+              event_type: "smart_contract_log",
+              contract_log: {
+                contract_id: contractId,
+                topic: "print",
+                value: encode(event),
+              },
+            },
+          ],
+  };
+}
+
+export function createGameTransaction(
+  gameId: number,
+  betAmount: bigint,
+  moveIndex: number,
+  options: TransactionOptions
+) {
+  return contractCall(
+    "create-game",
+    [
+      ["bet-amount", Cl.uint(betAmount)],
+      ["move-index", Cl.uint(moveIndex)],
+      ["move", Cl.uint(1)],
+    ],
+    Cl.ok(Cl.uint(gameId)),
+    Cl.tuple({
+      action: Cl.stringAscii("create-game"),
+      "game-id": Cl.uint(gameId),
+      "player-one": Cl.standardPrincipal(options.sender),
+      "bet-amount": Cl.uint(betAmount),
+      "first-move": Cl.uint(moveIndex),
+    }),
+    options
+  );
+}
+
+export function joinGameTransaction(
+  gameId: number,
+  moveIndex: number,
+  options: TransactionOptions
+) {
+  return contractCall(
+    "join-game",
+    [
+      ["game-id", Cl.uint(gameId)],
+      ["move-index", Cl.uint(moveIndex)],
+      ["move", Cl.uint(2)],
+    ],
+    Cl.ok(Cl.uint(gameId)),
+    Cl.tuple({
+      action: Cl.stringAscii("join-game"),
+      "game-id": Cl.uint(gameId),
+      "player-two": Cl.standardPrincipal(options.sender),
+      move: Cl.uint(moveIndex),
+    }),
+    options
+  );
+}
+
+export function playTransaction(
+  gameId: number,
+  moveIndex: number,
+  move: number,
+  options: TransactionOptions & { winner?: string; isDraw?: boolean }
+) {
+  return contractCall(
+    "play",
+    [
+      ["game-id", Cl.uint(gameId)],
+      ["move-index", Cl.uint(moveIndex)],
+      ["move", Cl.uint(move)],
+    ],
+    options.status && options.status !== "success"
+      ? Cl.error(Cl.uint(104))
+      : Cl.ok(Cl.uint(gameId)),
+    Cl.tuple({
+      action: Cl.stringAscii("play"),
+      "game-id": Cl.uint(gameId),
+      player: Cl.standardPrincipal(options.sender),
+      move: Cl.uint(moveIndex),
+      winner: options.winner
+        ? Cl.some(Cl.standardPrincipal(options.winner))
+        : Cl.none(),
+      "is-draw": Cl.bool(options.isDraw ?? false),
+    }),
+    options
+  );
+}
+
+// The transaction list endpoint returns transactions without their events
+export function listed(transaction: ApiTransaction): ApiTransaction {
+  return { ...transaction, events: [] };
+}
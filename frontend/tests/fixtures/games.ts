@@ -0,0 +1,31 @@
+import { Game, GameStatus, Move } from "@/lib/contract";
+
+// Devnet wallets, wallet_1 to wallet_3
+export const ALICE = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+export const BOB = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+export const CAROL = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+
+export const BET_AMOUNT = 1000000n;
+
+const { X, O, EMPTY: _ } = Move;
+
+// A game Alice created against Bob after one move each. Waiting games have no second player
+// and won games are won by Alice, anything else is set through the overrides.
+export function createGame(
+  id: number,
+  status: GameStatus,
+  overrides: Partial<Game> = {}
+): Game {
+  return {
+    id,
+    "player-one": ALICE,
+    "player-two": status === "waiting" ? null : BOB,
+    "is-player-one-turn": true,
+    "bet-amount": BET_AMOUNT,
+    board: [X, O, _, _, _, _, _, _, _],
+    winner: status === "won" ? ALICE : null,
+    "invited-opponent": null,
+    status,
+    ...overrides,
+  };
+}
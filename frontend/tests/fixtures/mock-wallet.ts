@@ -0,0 +1,73 @@
+import type {
+  WalletCallResult,
+  WalletConnectResult,
+  WalletContractCall,
+  WalletProvider,
+} from "@/lib/wallet";
+
+export type MockWallet = {
+  provider: WalletProvider;
+  // Every contract call the app asked the wallet to sign
+  calls: WalletContractCall[];
+  // Number of times the app asked for the addresses, i.e. prompted the user
+  connectRequests: number;
+  // Switch accounts like the user would in the wallet, an empty list revokes access
+  switchAccount: (addresses: string[]) => void;
+  // The next prompt is rejected by the user
+  cancelNext: () => void;
+};
+
+// A wallet that approves every request without a browser extension
+export function createMockWallet({
+  id = "MockWallet",
+  name = "Mock Wallet",
+  addresses,
+  installed = true,
+}: {
+  id?: string;
+  name?: string;
+  addresses: string[];
+  installed?: boolean;
+}): MockWallet {
+  const listeners = new Set<(addresses: string[]) => void>();
+  let current = addresses;
+  let cancelNext = false;
+
+  const wallet: MockWallet = {
+    calls: [],
+    connectRequests: 0,
+    provider: {
+      id,
+      name,
+      isInstalled: () => installed,
+      async getAddresses(): Promise<WalletConnectResult> {
+        wallet.connectRequests++;
+        if (cancelNext) {
+          cancelNext = false;
+          return { status: "cancelled" };
+        }
+        return { status: "connected", addresses: current };
+      },
+      async callContract(call): Promise<WalletCallResult> {
+        if (cancelNext) {
+          cancelNext = false;
+          return { status: "cancelled" };
+        }
+        wallet.calls.push(call);
+        return { status: "submitted", txId: `0x${wallet.calls.length}` };
+      },
+      onAccountChange(_network, listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    },
+    switchAccount(next) {
+      current = next;
+      listeners.forEach((listener) => listener(next));
+    },
+    cancelNext() {
+      cancelNext = true;
+    },
+  };
+  return wallet;
+}
@@ -0,0 +1,72 @@
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+
+export type RedisRestServer = {
+  url: string;
+  // Commands in the order they were received, e.g. ["SET", "key", "value", "PX", 1000]
+  commands: (string | number)[][];
+  close: () => Promise<void>;
+};
+
+// A local stand-in for a Redis REST service (Upstash and compatible proxies) that knows the
+// commands the cache uses: GET, SET with an optional PX expiry and DEL
+export async function startRedisRestServer(
+  token: string
+): Promise<RedisRestServer> {
+  const commands: (string | number)[][] = [];
+  const data = new Map<string, { value: string; expiresAt: number }>();
+
+  function execute([name, key, value, option, ttl]: (string | number)[]) {
+    switch (String(name).toUpperCase()) {
+      case "GET": {
+        const stored = data.get(String(key));
+        if (!stored || Date.now() >= stored.expiresAt) return null;
+        return stored.value;
+      }
+      case "SET":
+        data.set(String(key), {
+          value: String(value),
+          expiresAt: option === "PX" ? Date.now() + Number(ttl) : Infinity,
+        });
+        return "OK";
+      case "DEL":
+        return data.delete(String(key)) ? 1 : 0;
+      default:
+        throw new Error(`ERR unknown command '${name}'`);
+    }
+  }
+
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      response.setHeader("Content-Type", "application/json");
+      if (request.headers.authorization !== `Bearer ${token}`) {
+        response.statusCode = 401;
+        response.end(JSON.stringify({ error: "Unauthorized" }));
+        return;
+      }
+      try {
+        const command = JSON.parse(body);
+        commands.push(command);
+        response.end(JSON.stringify({ result: execute(command) }));
+      } catch (error) {
+        response.statusCode = 400;
+        response.end(JSON.stringify({ error: (error as Error).message }));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    commands,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
@@ -0,0 +1,56 @@
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+
+export type FixtureServer = {
+  url: string;
+  // Paths (including the query) of every request, in the order they were received
+  requests: string[];
+  close: () => Promise<void>;
+};
+
+// Answers a request from its body, e.g. a map_entry lookup whose key is POSTed. Returning
+// undefined answers with a 404.
+export type FixtureHandler = (body: string) => unknown;
+
+// A local HTTP server that stands in for the Stacks API. Responses are looked up by path and
+// query, anything else is answered with a 404 like the API does for unknown transactions.
+export async function startFixtureServer(
+  routes: Record<string, unknown>
+): Promise<FixtureServer> {
+  const requests: string[] = [];
+  const server = createServer((request, response) => {
+    const path = request.url ?? "/";
+    requests.push(path);
+
+    let requestBody = "";
+    request.on("data", (chunk) => (requestBody += chunk));
+    request.on("end", () => {
+      const route = routes[path];
+      const body =
+        typeof route === "function"
+          ? (route as FixtureHandler)(requestBody)
+          : route;
+      response.setHeader("Content-Type", "application/json");
+      if (body === undefined) {
+        response.statusCode = 404;
+        response.end(JSON.stringify({ error: `No fixture for ${path}` }));
+        return;
+      }
+      response.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // Idle keep-alive connections would otherwise hold the server open for seconds
+        server.closeAllConnections();
+      }),
+  };
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { GameFilters } from "@/components/game-filters";
+import { useLobby } from "@/hooks/use-lobby";
+import { ALICE } from "./fixtures/games";
+
+// The URL of the lobby, router.replace and router.push only record where they would go
+const navigation = vi.hoisted(() => ({
+  searchParams: new URLSearchParams(),
+  router: { replace: vi.fn(), push: vi.fn() },
+}));
+const wallet = vi.hoisted(() => ({ address: null as string | null }));
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => navigation.router,
+  usePathname: () => "/",
+  useSearchParams: () => navigation.searchParams,
+}));
+
+vi.mock("@/hooks/use-stacks", () => ({
+  useStacksAddress: () => wallet.address,
+}));
+
+vi.mock("@/hooks/use-games", () => {
+  const stored = {
+    games: [],
+    isOnline: true,
+    syncing: false,
+    syncError: null,
+    lastSyncedAt: null,
+    sync: () => {},
+    storeGames: () => {},
+  };
+  return { useGames: () => stored };
+});
+
+// The games API never answers, the filters do not depend on its result
+vi.mock("@/lib/game-query", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/game-query")>()),
+  getGameQueryResult: () => new Promise(() => {}),
+}));
+
+// The filters as the lobby wires them up
+function LobbyFilters() {
+  const { query, setQuery, player } = useLobby(null);
+  return (
+    <GameFilters query={query} onChange={setQuery} isConnected={!!player} />
+  );
+}
+
+function openLobby(search = "") {
+  navigation.searchParams = new URLSearchParams(search);
+  return render(<LobbyFilters />);
+}
+
+function lastReplacedUrl() {
+  const { calls } = navigation.router.replace.mock;
+  return calls.length > 0 ? calls[calls.length - 1][0] : null;
+}
+
+describe("lobby filters", () => {
+
+  beforeEach(() => {
+    wallet.address = null;
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it("writes a changed status or order to the URL, starting over at the first page", () => {
+    openLobby("sort=bet&page=3");
+
+    fireEvent.change(screen.getByLabelText("Status"), {
+      target: { value: "joinable" },
+    });
+    expect(navigation.router.replace).toHaveBeenCalledWith(
+      "/?status=joinable&sort=bet",
+      { scroll: false }
+    );
+
+    fireEvent.change(screen.getByLabelText("Sort by"), {
+      target: { value: "newest" },
+    });
+    expect(lastReplacedUrl()).toBe("/");
+  });
+
+  it("applies the bet and player filters only when submitted", () => {
+    openLobby("page=2");
+
+    fireEvent.change(screen.getByLabelText("Minimum bet in STX"), {
+      target: { value: "1.5" },
+    });
+    fireEvent.change(screen.getByLabelText("Player address"), {
+      target: { value: " st2cy5 " },
+    });
+    expect(navigation.router.replace).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Apply" }));
+    expect(lastReplacedUrl()).toBe("/?minBet=1.5&opponent=ST2CY5");
+  });
+
+  it("does not apply invalid bets", () => {
+    openLobby();
+
+    fireEvent.change(screen.getByLabelText("Maximum bet in STX"), {
+      target: { value: "1.2.3" },
+    });
+    const apply = screen.getByRole("button", { name: "Apply" });
+
+    expect(apply).toHaveProperty("disabled", true);
+    expect(screen.getByText("Enter a valid STX amount")).toBeTruthy();
+    fireEvent.submit(apply.closest("form")!);
+    expect(navigation.router.replace).not.toHaveBeenCalled();
+  });
+
+  it("follows the filters in the URL", () => {
+    const { rerender } = openLobby("minBet=2&opponent=ST2CY5");
+
+    expect(screen.getByLabelText("Minimum bet in STX")).toHaveProperty("value", "2");
+    expect(screen.getByLabelText("Player address")).toHaveProperty("value", "ST2CY5");
+
+    // e.g. going back to the unfiltered lobby
+    navigation.searchParams = new URLSearchParams();
+    rerender(<LobbyFilters />);
+    expect(screen.getByLabelText("Minimum bet in STX")).toHaveProperty("value", "");
+    expect(screen.getByLabelText("Player address")).toHaveProperty("value", "");
+  });
+
+  it("jumps to a game by its number", () => {
+    openLobby();
+    const gameNumber = screen.getByLabelText("Game number");
+    const go = screen.getByRole("button", { name: "Go" });
+
+    fireEvent.change(gameNumber, { target: { value: "1abc" } });
+    expect(go).toHaveProperty("disabled", true);
+
+    fireEvent.change(gameNumber, { target: { value: " 12 " } });
+    fireEvent.click(go);
+    expect(navigation.router.push).toHaveBeenCalledWith("/game/12");
+    expect(navigation.router.replace).not.toHaveBeenCalled();
+  });
+
+  it("only offers the personal filters with a connected wallet", () => {
+    const { unmount } = openLobby();
+
+    expect(screen.getByRole("option", { name: "My active games" })).toHaveProperty("disabled", true);
+    expect(screen.getByRole("checkbox")).toHaveProperty("disabled", true);
+    unmount();
+
+    wallet.address = ALICE;
+    openLobby("opponent=ST2CY5&page=4");
+    expect(screen.getByRole("option", { name: "My active games" })).toHaveProperty("disabled", false);
+
+    fireEvent.click(screen.getByRole("checkbox"));
+    expect(lastReplacedUrl()).toBe("/?opponent=ST2CY5&myTurn=1");
+  });
+
+});
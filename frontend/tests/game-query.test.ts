@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_GAME_QUERY,
+  GameQuery,
+  gameQueryToSearchParams,
+  isUnfilteredQuery,
+  matchesGameQuery,
+  parseGameQuery,
+  parseGameQueryOrDefault,
+  queryGames,
+  sortGames,
+} from "@/lib/game-query";
+import { ALICE, BOB, CAROL, createGame } from "./fixtures/games";
+
+// Alice plays every game, Bob joined all but the waiting ones
+const GAMES = [
+  createGame(0, "won", { "bet-amount": 5000000n }),
+  createGame(1, "draw"),
+  createGame(2, "in-progress", { "is-player-one-turn": false }),
+  createGame(3, "in-progress", { "bet-amount": 2500000n }),
+  createGame(4, "waiting", { "bet-amount": 100000n }),
+  createGame(5, "waiting", { "player-one": CAROL }),
+];
+
+function query(changes: Partial<GameQuery>): GameQuery {
+  return { ...DEFAULT_GAME_QUERY, ...changes };
+}
+
+function matchingIds(
+  changes: Partial<GameQuery>,
+  player: string | null,
+  games = GAMES
+) {
+  return games.filter((game) =>
+    matchesGameQuery(game, query(changes), player)
+  ).map((game) => game.id);
+}
+
+describe("lobby queries in the URL", () => {
+
+  it("round-trips a query through search params, leaving out defaults", () => {
+    const full = query({
+      status: "ended",
+      minBet: 500000n,
+      maxBet: 10n ** 20n,
+      opponent: "ST2CY5",
+      myTurn: true,
+      sort: "bet",
+      page: 3,
+    });
+
+    const params = gameQueryToSearchParams(full);
+
+    expect(params.toString()).toBe(
+      "status=ended&minBet=0.5&maxBet=100000000000000&opponent=ST2CY5&myTurn=1&sort=bet&page=3"
+    );
+    expect(parseGameQuery(params)).toEqual(full);
+    expect(gameQueryToSearchParams(DEFAULT_GAME_QUERY).toString()).toBe("");
+    expect(parseGameQuery(new URLSearchParams())).toEqual(DEFAULT_GAME_QUERY);
+  });
+
+  it("searches addresses case-insensitively", () => {
+    expect(
+      parseGameQuery(new URLSearchParams("opponent=%20st2cy5%20")).opponent
+    ).toBe("ST2CY5");
+  });
+
+  it("rejects invalid parameters, the lobby falls back to the default query", () => {
+    for (const search of [
+      "status=lost",
+      "sort=oldest",
+      "page=0",
+      "page=1.5",
+      "minBet=abc",
+      "maxBet=0.0000001",
+    ]) {
+      const params = new URLSearchParams(search);
+      expect(() => parseGameQuery(params)).toThrow(
+        `Invalid ${search.split("=")[0]} parameter`
+      );
+      expect(parseGameQueryOrDefault(params)).toEqual(DEFAULT_GAME_QUERY);
+    }
+  });
+
+});
+
+describe("lobby filters", () => {
+
+  it("filters by status", () => {
+    expect(matchingIds({}, null)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(matchingIds({ status: "ended" }, null)).toEqual([0, 1]);
+    expect(matchingIds({ status: "drawn" }, null)).toEqual([1]);
+    // Players can not join their own games
+    expect(matchingIds({ status: "joinable" }, null)).toEqual([4, 5]);
+    expect(matchingIds({ status: "joinable" }, ALICE)).toEqual([5]);
+    expect(matchingIds({ status: "mine" }, BOB)).toEqual([2, 3]);
+    expect(matchingIds({ status: "mine" }, CAROL)).toEqual([5]);
+  });
+
+  it("matches personal filters only with a player", () => {
+    expect(matchingIds({ status: "mine" }, null)).toEqual([]);
+    expect(matchingIds({ myTurn: true }, null)).toEqual([]);
+    expect(matchingIds({ status: "challenges" }, null)).toEqual([]);
+  });
+
+  it("finds the games in which it is the player's turn", () => {
+    expect(matchingIds({ myTurn: true }, ALICE)).toEqual([3]);
+    expect(matchingIds({ myTurn: true }, BOB)).toEqual([2]);
+    // Waiting games are not anyone's turn until they are joined
+    expect(matchingIds({ myTurn: true }, CAROL)).toEqual([]);
+  });
+
+  it("filters by bet range, inclusive", () => {
+    expect(matchingIds({ minBet: 1000000n }, null)).toEqual([0, 1, 2, 3, 5]);
+    expect(matchingIds({ maxBet: 1000000n }, null)).toEqual([1, 2, 4, 5]);
+    expect(matchingIds({ minBet: 1000001n, maxBet: 2500000n }, null)).toEqual([
+      3,
+    ]);
+  });
+
+  it("searches either player's address", () => {
+    expect(matchingIds({ opponent: BOB }, null)).toEqual([0, 1, 2, 3]);
+    expect(matchingIds({ opponent: "HR05NNC" }, null)).toEqual([5]);
+    // Waiting games have no second player to match
+    expect(matchingIds({ opponent: "ST2" }, null)).toEqual([0, 1, 2, 3, 5]);
+  });
+
+  it("lists challenges only for their players until they are accepted", () => {
+    const challenges = [
+      createGame(6, "waiting", { "invited-opponent": BOB }),
+      createGame(7, "in-progress", { "invited-opponent": BOB }),
+    ];
+
+    expect(matchingIds({}, null, challenges)).toEqual([7]);
+    expect(matchingIds({}, CAROL, challenges)).toEqual([7]);
+    expect(matchingIds({}, ALICE, challenges)).toEqual([6, 7]);
+    expect(matchingIds({ status: "joinable" }, BOB, challenges)).toEqual([6]);
+    expect(matchingIds({ status: "joinable" }, CAROL, challenges)).toEqual([]);
+    expect(matchingIds({ status: "challenges" }, BOB, challenges)).toEqual([6]);
+    expect(matchingIds({ status: "challenges" }, ALICE, challenges)).toEqual([]);
+    expect(matchingIds({ status: "challenges" }, null, challenges)).toEqual([]);
+  });
+
+  it("combines filters", () => {
+    expect(
+      matchingIds({ status: "mine", minBet: 2000000n, myTurn: true }, ALICE)
+    ).toEqual([3]);
+  });
+
+});
+
+describe("lobby order and pages", () => {
+
+  it("sorts by bet size, then newest first", () => {
+    expect(sortGames(GAMES, "bet").map((game) => game.id)).toEqual([
+      0, 3, 5, 2, 1, 4,
+    ]);
+  });
+
+  it("sorts by last activity, games without any after the others", () => {
+    const activity = new Map([
+      [1, 40],
+      [3, 52],
+      [0, 40],
+    ]);
+
+    expect(
+      sortGames(GAMES, "activity", activity).map((game) => game.id)
+    ).toEqual([3, 1, 0, 5, 4, 2]);
+    expect(sortGames(GAMES, "activity").map((game) => game.id)).toEqual([
+      5, 4, 3, 2, 1, 0,
+    ]);
+  });
+
+  it("pages the matching games", () => {
+    const first = queryGames(GAMES, query({ sort: "bet" }), { pageSize: 4 });
+    const last = queryGames(GAMES, query({ sort: "bet", page: 2 }), {
+      pageSize: 4,
+    });
+
+    expect(first.games.map((game) => game.id)).toEqual([0, 3, 5, 2]);
+    expect(last.games.map((game) => game.id)).toEqual([1, 4]);
+    expect(last).toMatchObject({ total: 6, page: 2, pageCount: 2 });
+    expect(
+      queryGames(GAMES, query({ status: "drawn", page: 5 }), { pageSize: 4 })
+    ).toEqual({
+      games: [],
+      failedGameIds: [],
+      total: 1,
+      page: 5,
+      pageCount: 1,
+    });
+  });
+
+  it("serves only the newest games without filters", () => {
+    expect(isUnfilteredQuery(query({ page: 4 }))).toBe(true);
+    expect(isUnfilteredQuery(query({ sort: "activity" }))).toBe(false);
+    expect(isUnfilteredQuery(query({ opponent: "ST2" }))).toBe(false);
+  });
+
+});
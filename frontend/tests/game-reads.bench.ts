@@ -0,0 +1,68 @@
+import { bench, describe } from "vitest";
+import { fetchGameFromMap, fetchGameFromReadOnly, Move } from "@/lib/contract";
+import { getNetworkConfig, NetworkConfig } from "@/lib/network";
+import { startFixtureServer } from "./fixtures/stacks-api-server";
+import { gameStateRoutes, StoredGame } from "./fixtures/game-state-routes";
+
+const ALICE = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const BOB = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+// A lobby page worth of games
+const GAME_COUNT = 20;
+
+const games = new Map<number, StoredGame>(
+  Array.from({ length: GAME_COUNT }, (_, gameId) => [
+    gameId,
+    {
+      "player-one": ALICE,
+      "player-two": BOB,
+      "is-player-one-turn": gameId % 2 === 0,
+      "bet-amount": BigInt(1000000 * (gameId + 1)),
+      board: [Move.X, Move.O, Move.X, 0, 0, 0, 0, 0, 0],
+      winner: null,
+      "invited-opponent": null,
+    },
+  ])
+);
+
+// Benchmarks do not run beforeAll hooks, the worker stops the server once the file is done
+const server = await startFixtureServer(
+  gameStateRoutes(getNetworkConfig("devnet"), games)
+);
+const config = getNetworkConfig("devnet", { apiUrl: server.url });
+
+// Requests one load of the page took
+const requestCounts: Record<string, number> = {};
+
+async function loadPage(
+  name: string,
+  fetchGame: (gameId: number, config: NetworkConfig) => Promise<unknown>
+) {
+  const before = server.requests.length;
+  await Promise.all(
+    [...games.keys()].map((gameId) => fetchGame(gameId, config))
+  );
+  requestCounts[name] = server.requests.length - before;
+}
+
+const reportRequests = {
+  teardown: (task: { name: string }, mode: string) => {
+    if (mode === "run") {
+      console.log(`${task.name}: ${requestCounts[task.name]} requests`);
+    }
+  },
+};
+
+describe(`Loading ${GAME_COUNT} games`, () => {
+  bench(
+    "map_entry",
+    () => loadPage("map_entry", fetchGameFromMap),
+    reportRequests
+  );
+
+  bench(
+    "read-only calls",
+    () => loadPage("read-only calls", fetchGameFromReadOnly),
+    reportRequests
+  );
+});
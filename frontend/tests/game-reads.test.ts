@@ -0,0 +1,139 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { deserializeCV, cvToValue } from "@stacks/transactions";
+import {
+  fetchGame,
+  fetchGameFromMap,
+  fetchGameFromReadOnly,
+  Move,
+} from "@/lib/contract";
+import { getNetworkConfig } from "@/lib/network";
+import { FixtureServer, startFixtureServer } from "./fixtures/stacks-api-server";
+import { gameStateRoutes, StoredGame } from "./fixtures/game-state-routes";
+
+const ALICE = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const BOB = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+const { X, O, EMPTY: _ } = Move;
+
+function storedGame(overrides: Partial<StoredGame> = {}): StoredGame {
+  return {
+    "player-one": ALICE,
+    "player-two": BOB,
+    "is-player-one-turn": true,
+    "bet-amount": 1000000n,
+    board: [X, O, _, _, _, _, _, _, _],
+    winner: null,
+    "invited-opponent": null,
+    ...overrides,
+  };
+}
+
+// One game of every status
+const GAMES = new Map<number, StoredGame>([
+  [0, storedGame({ "player-two": null, board: [X, _, _, _, _, _, _, _, _] })],
+  [1, storedGame()],
+  [2, storedGame({ board: [X, X, X, O, O, _, _, _, _], winner: ALICE })],
+  [3, storedGame({ board: [X, O, X, X, O, O, O, X, X] })],
+  [4, storedGame({ "bet-amount": 10n ** 20n, board: [O, O, O, X, X, _, X, _, _], winner: BOB })],
+]);
+
+describe("Reading games from the games map", () => {
+  let server: FixtureServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  async function serve(options?: Parameters<typeof gameStateRoutes>[2]) {
+    const base = getNetworkConfig("devnet");
+    server = await startFixtureServer(gameStateRoutes(base, GAMES, options));
+    return getNetworkConfig("devnet", { apiUrl: server.url });
+  }
+
+  it("decodes the same games as the read-only functions", async () => {
+    const config = await serve();
+
+    for (const gameId of [...GAMES.keys(), 99]) {
+      expect(await fetchGameFromMap(gameId, config)).toEqual(
+        await fetchGameFromReadOnly(gameId, config)
+      );
+    }
+    const statuses = await Promise.all(
+      [0, 1, 2, 3].map(async (gameId) => (await fetchGameFromMap(gameId, config))?.status)
+    );
+    expect(statuses).toEqual(["waiting", "in-progress", "won", "draw"]);
+    expect(await fetchGameFromMap(99, config)).toBeNull();
+  });
+
+  it("sends the game id as the serialized uint key", async () => {
+    const config = await serve();
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    try {
+      await fetchGameFromMap(4, config);
+      const [, init] = fetchSpy.mock.calls[0];
+      expect(init?.method).toBe("POST");
+      expect(init?.body).toBe('"0x0100000000000000000000000000000004"');
+      expect(cvToValue(deserializeCV(JSON.parse(init!.body as string)))).toBe(4n);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("loads each game with one request instead of two", async () => {
+    const config = await serve();
+    const gameIds = [...GAMES.keys()];
+
+    for (const gameId of gameIds) await fetchGameFromMap(gameId, config);
+    const mapRequests = server!.requests.length;
+    for (const gameId of gameIds) await fetchGameFromReadOnly(gameId, config);
+    const readOnlyRequests = server!.requests.length - mapRequests;
+
+    expect(mapRequests).toBe(gameIds.length);
+    expect(readOnlyRequests).toBe(2 * gameIds.length);
+    expect(server!.requests.slice(0, mapRequests).every((path) => path.startsWith("/v2/map_entry/"))).toBe(true);
+  });
+
+  it("falls back to the read-only functions when map_entry is not served", async () => {
+    const config = await serve({ mapEntry: false });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await fetchGame(2, config)).toEqual(
+        await fetchGameFromReadOnly(2, config)
+      );
+      // The node is remembered, later games go straight to the read-only functions
+      expect(await fetchGame(3, config)).toEqual(
+        await fetchGameFromReadOnly(3, config)
+      );
+      expect(server!.requests.filter((path) => path.startsWith("/v2/map_entry/"))).toHaveLength(1);
+    } finally {
+      vi.mocked(console.error).mockRestore();
+    }
+  });
+
+  it("tries map_entry again once the fallback expires", async () => {
+    const config = await serve({ mapEntry: false });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const now = Date.now();
+    const dateSpy = vi.spyOn(Date, "now").mockReturnValue(now);
+    const mapRequests = () =>
+      server!.requests.filter((path) => path.startsWith("/v2/map_entry/"));
+
+    try {
+      await fetchGame(2, config);
+      dateSpy.mockReturnValue(now + 4 * 60 * 1000);
+      await fetchGame(2, config);
+      expect(mapRequests()).toHaveLength(1);
+
+      dateSpy.mockReturnValue(now + 5 * 60 * 1000);
+      await fetchGame(2, config);
+      expect(mapRequests()).toHaveLength(2);
+    } finally {
+      dateSpy.mockRestore();
+      vi.mocked(console.error).mockRestore();
+    }
+  });
+
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { getPayouts, isGameFinished, Move, parseGameId } from "@/lib/contract";
+import { ALICE as PLAYER_ONE, BET_AMOUNT, BOB as PLAYER_TWO, createGame } from "./fixtures/games";
+
+const { X, O, EMPTY: _ } = Move;
+
+describe("Game status", () => {
+
+  it("only won and drawn games are finished", () => {
+    expect(isGameFinished(createGame(0, "waiting"))).toBe(false);
+    expect(isGameFinished(createGame(0, "in-progress"))).toBe(false);
+    expect(isGameFinished(createGame(0, "won"))).toBe(true);
+    expect(isGameFinished(createGame(0, "draw"))).toBe(true);
+  });
+
+  it("a won game pays both bets to the winner", () => {
+    const game = createGame(0, "won", { board: [X, X, X, O, O, _, _, _, _] });
+
+    expect(getPayouts(game)).toEqual([{ player: PLAYER_ONE, amount: 2n * BET_AMOUNT }]);
+  });
+
+  it("a drawn game refunds each player their bet", () => {
+    const game = createGame(0, "draw", { board: [X, O, X, X, O, O, O, X, X] });
+
+    expect(getPayouts(game)).toEqual([
+      { player: PLAYER_ONE, amount: BET_AMOUNT },
+      { player: PLAYER_TWO, amount: BET_AMOUNT },
+    ]);
+  });
+
+  it("games that are not over pay nothing", () => {
+    expect(getPayouts(createGame(0, "waiting"))).toEqual([]);
+    expect(getPayouts(createGame(0, "in-progress"))).toEqual([]);
+  });
+
+});
+
+describe("Game ids in URLs", () => {
+
+  it("only accepts decimal numbers", () => {
+    expect(parseGameId("0")).toBe(0);
+    expect(parseGameId("42")).toBe(42);
+    for (const value of ["", "1abc", "abc", "0x10", "1e2", "-1", " 1", "1.5"]) {
+      expect(parseGameId(value)).toBeNull();
+    }
+    expect(parseGameId("9007199254740993")).toBeNull();
+  });
+
+});
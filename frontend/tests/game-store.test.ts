@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from "vitest";
+import { Game, GamesPage, MAX_GAMES_PER_REQUEST } from "@/lib/contract";
+import { createMemoryGameStore, syncGames } from "@/lib/game-store";
+import { CAROL, createGame } from "./fixtures/games";
+
+function page(games: Game[], nextCursor: number | null = null): GamesPage {
+  return { games, failedGameIds: [], nextCursor };
+}
+
+describe("syncGames", () => {
+
+  it("stores the newest page and loads stored games again until they are finished", async () => {
+    const store = createMemoryGameStore();
+    await store.putGames([
+      createGame(0, "won"),
+      createGame(1, "in-progress"),
+      createGame(2, "waiting"),
+    ]);
+    const loadPage = vi.fn(async () =>
+      page(
+        [createGame(4, "waiting", { "bet-amount": 10n ** 20n }), createGame(3, "draw")],
+        2
+      )
+    );
+    const loadGames = vi.fn(async (gameIds: number[]) => ({
+      games: gameIds.map((id) => createGame(id, "won")),
+      failedGameIds: [],
+    }));
+
+    const synced = await syncGames(store, { loadPage, loadGames });
+
+    expect(loadPage).toHaveBeenCalledWith(null);
+    // Game 0 was already finished and is not loaded again
+    expect(loadGames).toHaveBeenCalledWith([1, 2]);
+    expect(synced.nextCursor).toBe(2);
+    const stored = await store.getGames();
+    expect(stored.map((stored) => [stored.id, stored.status]).sort()).toEqual([
+      [0, "won"],
+      [1, "won"],
+      [2, "won"],
+      [3, "draw"],
+      [4, "waiting"],
+    ]);
+    expect(stored.find((stored) => stored.id === 4)?.["bet-amount"]).toBe(
+      10n ** 20n
+    );
+    expect(await store.getLastSyncedAt()).toBe(synced.lastSyncedAt);
+  });
+
+  it("only loads the newest page once every stored game is finished", async () => {
+    const store = createMemoryGameStore();
+    const loadPage = vi.fn(async () => page([createGame(1, "won"), createGame(0, "draw")]));
+    const loadGames = vi.fn();
+
+    await syncGames(store, { loadPage, loadGames });
+    await syncGames(store, { loadPage, loadGames });
+
+    expect(loadPage).toHaveBeenCalledTimes(2);
+    expect(loadGames).not.toHaveBeenCalled();
+    expect(await store.getGames()).toHaveLength(2);
+  });
+
+  it("keeps the stored games when the API can not be reached", async () => {
+    const store = createMemoryGameStore();
+    await syncGames(store, {
+      loadPage: async () => page([createGame(0, "in-progress")]),
+      loadGames: async () => ({ games: [], failedGameIds: [] }),
+    });
+    const lastSyncedAt = await store.getLastSyncedAt();
+
+    await expect(
+      syncGames(store, {
+        loadPage: async () => {
+          throw new Error("Failed to fetch");
+        },
+        loadGames: async () => ({ games: [], failedGameIds: [] }),
+      })
+    ).rejects.toThrow("Failed to fetch");
+
+    expect(await store.getGames()).toEqual([createGame(0, "in-progress")]);
+    expect(await store.getLastSyncedAt()).toBe(lastSyncedAt);
+  });
+
+  it("reports stored games that failed to load", async () => {
+    const store = createMemoryGameStore();
+    await store.putGames([createGame(0, "in-progress")]);
+
+    const synced = await syncGames(store, {
+      loadPage: async () => ({
+        ...page([createGame(2, "waiting")]),
+        failedGameIds: [1],
+      }),
+      loadGames: async () => ({ games: [], failedGameIds: [0] }),
+    });
+
+    expect(synced.failedGameIds).toEqual([1, 0]);
+  });
+
+  it("loads the player's unfinished games in requests the games API accepts", async () => {
+    const store = createMemoryGameStore();
+    const ownGames = Array.from({ length: 120 }, (_, id) =>
+      createGame(id, "in-progress", { "player-one": CAROL })
+    );
+    await store.putGames(ownGames);
+    const loadGames = vi.fn(async (gameIds: number[]) => ({
+      games: gameIds.map((id) => createGame(id, "won")),
+      failedGameIds: [],
+    }));
+
+    await syncGames(store, {
+      loadPage: async () => page([createGame(1000, "waiting")]),
+      loadGames,
+      player: CAROL,
+    });
+
+    expect(loadGames).toHaveBeenCalledTimes(3);
+    for (const [gameIds] of loadGames.mock.calls) {
+      expect(gameIds.length).toBeLessThanOrEqual(MAX_GAMES_PER_REQUEST);
+    }
+    expect(loadGames.mock.calls.flatMap(([gameIds]) => gameIds).sort((a, b) => a - b)).toEqual(
+      ownGames.map((game) => game.id)
+    );
+  });
+
+  it("leaves old unfinished games of other players alone", async () => {
+    const store = createMemoryGameStore();
+    await store.putGames([
+      createGame(0, "in-progress"),
+      createGame(1, "waiting", { "invited-opponent": CAROL }),
+      createGame(2, "in-progress", { "player-two": CAROL }),
+      createGame(150, "in-progress"),
+    ]);
+    const loadGames = vi.fn(async () => ({ games: [], failedGameIds: [] }));
+
+    await syncGames(store, {
+      loadPage: async () => page([createGame(200, "waiting")]),
+      loadGames,
+      player: CAROL,
+    });
+
+    // Game 0 is neither the player's nor among the newest games
+    expect(loadGames).toHaveBeenCalledWith([1, 2, 150]);
+    expect(loadGames).toHaveBeenCalledTimes(1);
+  });
+
+});
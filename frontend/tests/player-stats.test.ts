@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { getGameOutcome, getPlayerStats, getRecentOpponents } from "@/lib/player-stats";
+import {
+  ALICE as PLAYER,
+  BOB as OPPONENT,
+  CAROL as OTHER,
+  createGame,
+} from "./fixtures/games";
+
+describe("Player statistics", () => {
+
+  it("derives the outcome of a game for each of its players", () => {
+    const won = createGame(0, "won", { winner: OPPONENT });
+
+    expect(getGameOutcome(won, OPPONENT)).toBe("win");
+    expect(getGameOutcome(won, PLAYER)).toBe("loss");
+    expect(getGameOutcome(createGame(1, "draw"), PLAYER)).toBe("draw");
+    expect(getGameOutcome(createGame(2, "in-progress"), PLAYER)).toBeNull();
+  });
+
+  it("counts wins, losses, draws and the net STX of the player's games only", () => {
+    const games = [
+      createGame(0, "won", { winner: PLAYER, "bet-amount": 5000000n }),
+      createGame(1, "won", {
+        winner: OPPONENT,
+        "bet-amount": 2000000n,
+        "player-one": OPPONENT,
+        "player-two": PLAYER,
+      }),
+      createGame(2, "draw", { "bet-amount": 7000000n }),
+      createGame(3, "in-progress"),
+      createGame(4, "waiting"),
+      createGame(5, "won", { winner: OTHER, "player-one": OTHER, "player-two": OPPONENT }),
+    ];
+
+    const stats = getPlayerStats(PLAYER, games);
+    expect(stats.games.map((game) => game.id)).toEqual([4, 3, 2, 1, 0]);
+    expect(stats.wins).toBe(1);
+    expect(stats.losses).toBe(1);
+    expect(stats.draws).toBe(1);
+    expect(stats.activeGames).toBe(2);
+    expect(stats.netStx).toBe(3000000n);
+  });
+
+  it("reports the latest run of equal outcomes as the streak", () => {
+    const games = [
+      createGame(0, "won", { winner: OPPONENT }),
+      createGame(1, "won", { winner: PLAYER }),
+      createGame(2, "won", { winner: PLAYER }),
+      createGame(3, "won", { winner: OPPONENT }),
+      createGame(4, "won", { winner: PLAYER }),
+      createGame(5, "won", { winner: PLAYER }),
+      createGame(6, "in-progress"),
+      createGame(7, "won", { winner: PLAYER }),
+    ];
+
+    // Unfinished games do not break a streak
+    expect(getPlayerStats(PLAYER, games).streak).toEqual({ outcome: "win", length: 3 });
+    expect(getPlayerStats(OPPONENT, games).streak).toEqual({ outcome: "loss", length: 3 });
+  });
+
+  it("has no streak and no net STX before the first finished game", () => {
+    const stats = getPlayerStats(PLAYER, [createGame(0, "waiting")]);
+
+    expect(stats.streak).toBeNull();
+    expect(stats.netStx).toBe(0n);
+    expect(getPlayerStats(OTHER, [createGame(0, "waiting")]).games).toEqual([]);
+  });
+
+  it("lists recent opponents, including open challenges, once each", () => {
+    const games = [
+      createGame(0, "won", { winner: OTHER, "player-one": OTHER }),
+      createGame(1, "draw"),
+      createGame(2, "won", { winner: OTHER, "player-one": OTHER, "player-two": OPPONENT }),
+      createGame(3, "waiting", { "invited-opponent": OTHER }),
+      createGame(4, "waiting"),
+      createGame(5, "in-progress", { "player-one": OPPONENT, "player-two": PLAYER }),
+    ];
+
+    expect(getRecentOpponents(PLAYER, games)).toEqual([OPPONENT, OTHER]);
+    expect(getRecentOpponents(OTHER, games)).toEqual([PLAYER, OPPONENT]);
+    expect(getRecentOpponents(PLAYER, games, 1)).toEqual([OPPONENT]);
+  });
+
+});
@@ -0,0 +1,187 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import { Cl, PostConditionMode } from "@stacks/transactions";
+import { createNewGame, joinGame, Move, play } from "@/lib/contract";
+import { buildPostConditions } from "@/lib/post-conditions";
+import { getNetworkConfig, NetworkConfig, networkConfig } from "@/lib/network";
+import {
+  ALICE as PLAYER_ONE,
+  BET_AMOUNT,
+  BOB as PLAYER_TWO,
+  createGame,
+} from "./fixtures/games";
+import { FixtureServer, startFixtureServer } from "./fixtures/stacks-api-server";
+
+const CONTRACT = `${networkConfig.contractAddress}.${networkConfig.contractName}`;
+
+const { X, O, EMPTY: _ } = Move;
+
+// Deployers of a contract with challenges and of one from before they were added
+const CURRENT_DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const OLD_DEPLOYER = "ST2TG9G3H0WD4Q69CXZ5KW973RFX5XGHD54TGX5PR";
+
+function contractInterface(createGameArgs: string[]) {
+  return {
+    functions: [
+      { name: "create-game", args: createGameArgs.map((name) => ({ name })) },
+    ],
+  };
+}
+
+let server: FixtureServer;
+let current: NetworkConfig;
+let old: NetworkConfig;
+
+beforeAll(async () => {
+  server = await startFixtureServer({
+    [`/v2/contracts/interface/${CURRENT_DEPLOYER}/tic-tac-toe`]:
+      contractInterface(["bet-amount", "move-index", "move", "opponent"]),
+    [`/v2/contracts/interface/${OLD_DEPLOYER}/tic-tac-toe`]: contractInterface(
+      ["bet-amount", "move-index", "move"]
+    ),
+  });
+  current = getNetworkConfig("devnet", {
+    apiUrl: server.url,
+    contractAddress: CURRENT_DEPLOYER,
+  });
+  old = getNetworkConfig("devnet", {
+    apiUrl: server.url,
+    contractAddress: OLD_DEPLOYER,
+  });
+});
+
+afterAll(() => server.close());
+
+describe("create-game arguments", () => {
+
+  it("sends the invited opponent, or none for an open game", async () => {
+    const challenge = await createNewGame(BET_AMOUNT, 4, X, PLAYER_TWO, current);
+    const open = await createNewGame(BET_AMOUNT, 4, X, null, current);
+
+    expect(challenge.functionArgs[3]).toEqual(Cl.some(Cl.standardPrincipal(PLAYER_TWO)));
+    expect(open.functionArgs[3]).toEqual(Cl.none());
+  });
+
+  it("rejects opponents with an address of another network", async () => {
+    const mainnetOpponent = "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+
+    await expect(
+      createNewGame(BET_AMOUNT, 4, X, mainnetOpponent, current)
+    ).rejects.toThrow(`${mainnetOpponent} is not a devnet address`);
+  });
+
+  it("leaves the opponent out for contracts from before challenges", async () => {
+    const open = await createNewGame(BET_AMOUNT, 4, X, null, old);
+
+    expect(open.contractAddress).toBe(OLD_DEPLOYER);
+    expect(open.functionArgs).toHaveLength(3);
+    await expect(createNewGame(BET_AMOUNT, 4, X, PLAYER_TWO, old)).rejects.toThrow(
+      "The deployed contract does not support challenges"
+    );
+  });
+
+  it("asks the Stacks API for the interface of each contract once", () => {
+    expect(
+      server.requests.filter((path) => path.startsWith("/v2/contracts/interface/"))
+    ).toEqual([
+      `/v2/contracts/interface/${CURRENT_DEPLOYER}/tic-tac-toe`,
+      `/v2/contracts/interface/${OLD_DEPLOYER}/tic-tac-toe`,
+    ]);
+  });
+
+});
+
+describe("Bet post-conditions", () => {
+
+  it("create-game sends exactly the bet amount from the creator", async () => {
+    const txOptions = await createNewGame(BET_AMOUNT, 4, Move.X, null, current);
+
+    expect(buildPostConditions(txOptions, PLAYER_ONE)).toEqual({
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [
+        {
+          type: "stx-postcondition",
+          address: PLAYER_ONE,
+          condition: "eq",
+          amount: BET_AMOUNT.toString(),
+        },
+      ],
+    });
+  });
+
+  it("join-game sends exactly the bet amount of the game from the joining player", async () => {
+    const game = createGame(0, "in-progress", {
+      board: [X, _, _, _, _, _, _, _, _],
+      "player-two": null,
+      "is-player-one-turn": false,
+      "bet-amount": 2500000n,
+    });
+    const txOptions = await joinGame(game.id, 4, Move.O);
+
+    expect(buildPostConditions(txOptions, PLAYER_TWO, game)).toEqual({
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [
+        {
+          type: "stx-postcondition",
+          address: PLAYER_TWO,
+          condition: "eq",
+          amount: "2500000",
+        },
+      ],
+    });
+  });
+
+  it("a winning play sends the prize pool from the contract", async () => {
+    // X completes the diagonal 0, 4, 8
+    const game = createGame(0, "in-progress", { board: [X, O, _, O, X, O, _, _, _] });
+    const txOptions = await play(game.id, 8, Move.X);
+
+    expect(buildPostConditions(txOptions, PLAYER_ONE, game)).toEqual({
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [
+        {
+          type: "stx-postcondition",
+          address: CONTRACT,
+          condition: "eq",
+          amount: (2n * BET_AMOUNT).toString(),
+        },
+      ],
+    });
+  });
+
+  it("a drawing play returns both bets from the contract", async () => {
+    // The last free cell fills the board without completing a line
+    const game = createGame(0, "in-progress", { board: [X, O, X, X, O, O, O, X, _] });
+    const txOptions = await play(game.id, 8, Move.X);
+
+    expect(buildPostConditions(txOptions, PLAYER_ONE, game)).toEqual({
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [
+        {
+          type: "stx-postcondition",
+          address: CONTRACT,
+          condition: "eq",
+          amount: (2n * BET_AMOUNT).toString(),
+        },
+      ],
+    });
+  });
+
+  it("a play that does not end the game cannot move any STX", async () => {
+    const game = createGame(0, "in-progress", { board: [X, O, _, _, _, _, _, _, _] });
+    const txOptions = await play(game.id, 4, Move.X);
+
+    expect(buildPostConditions(txOptions, PLAYER_ONE, game)).toEqual({
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [],
+    });
+  });
+
+  it("join-game and play require the game", async () => {
+    const txOptions = await play(0, 4, Move.X);
+
+    expect(() => buildPostConditions(txOptions, PLAYER_ONE)).toThrow(
+      "play post-conditions need the game"
+    );
+  });
+
+});
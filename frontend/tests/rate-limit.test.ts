@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRateLimiter,
+  getClientIp,
+  rateLimitHeaders,
+} from "@/lib/rate-limit";
+
+const NOW = new Date("2025-01-01T00:00:00Z").getTime();
+
+describe("rate limiting", () => {
+
+  it("allows limit requests per window and client", () => {
+    const limiter = createRateLimiter({ limit: 3, windowMs: 60000 });
+
+    const results = [1, 2, 3, 4].map(() => limiter.check("1.2.3.4", NOW));
+
+    expect(results.map((result) => result.allowed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    // Other clients have their own count
+    expect(limiter.check("5.6.7.8", NOW).allowed).toBe(true);
+    // A new window starts once the current one ends
+    expect(limiter.check("1.2.3.4", NOW + 59999).allowed).toBe(false);
+    expect(limiter.check("1.2.3.4", NOW + 60000)).toEqual({
+      allowed: true,
+      limit: 3,
+      remaining: 2,
+      resetAt: NOW + 120000,
+    });
+  });
+
+  it("forgets the least recently seen clients beyond maxClients", () => {
+    const limiter = createRateLimiter({
+      limit: 1,
+      windowMs: 60000,
+      maxClients: 2,
+    });
+
+    limiter.check("a", NOW);
+    limiter.check("b", NOW);
+    limiter.check("c", NOW);
+
+    expect(limiter.check("a", NOW).allowed).toBe(true);
+    expect(limiter.check("c", NOW).allowed).toBe(false);
+  });
+
+  it("tells limited clients when to retry", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60000 });
+    limiter.check("a", NOW);
+
+    expect(
+      rateLimitHeaders(limiter.check("a", NOW + 15500), NOW + 15500)
+    ).toEqual({
+      "X-RateLimit-Limit": "1",
+      "X-RateLimit-Remaining": "0",
+      "X-RateLimit-Reset": String((NOW + 60000) / 1000),
+      "Retry-After": "45",
+    });
+    expect(rateLimitHeaders(limiter.check("b", NOW), NOW)).not.toHaveProperty(
+      "Retry-After"
+    );
+  });
+
+  it("identifies clients by the address the trusted proxies saw", () => {
+    const headers = new Headers({
+      "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1",
+    });
+
+    // The client can put any address before the ones added by the proxies
+    expect(getClientIp(headers)).toBe("10.0.0.1");
+    expect(getClientIp(headers, 2)).toBe("1.2.3.4");
+    expect(getClientIp(headers, 3)).toBe("6.6.6.6");
+    expect(getClientIp(headers, 0)).toBeNull();
+  });
+
+  it("does not identify clients from headers they control", () => {
+    // Without the header no proxy vouched for the address
+    expect(getClientIp(new Headers())).toBeNull();
+
+    // With fewer entries than proxies the first entry came from the client
+    const short = new Headers({ "x-forwarded-for": "6.6.6.6, 10.0.0.1" });
+    expect(getClientIp(short, 3)).toBeNull();
+
+    // X-Real-IP is sent by the client as easily as by a proxy
+    expect(getClientIp(new Headers({ "x-real-ip": "5.6.7.8" }))).toBeNull();
+    expect(
+      getClientIp(
+        new Headers({ "x-forwarded-for": "10.0.0.1", "x-real-ip": "5.6.7.8" })
+      )
+    ).toBe("10.0.0.1");
+  });
+
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeRatings,
+  expectedScore,
+  INITIAL_RATING,
+  updateRatings,
+} from "@/lib/ratings";
+import { ALICE, BOB, CAROL, createGame } from "./fixtures/games";
+
+describe("Elo ratings", () => {
+
+  it("expects equal players to score half and a 400 point favourite ten to one", () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+    expect(expectedScore(1900, 1500)).toBeCloseTo(10 / 11, 12);
+    expect(expectedScore(1500, 1900)).toBeCloseTo(1 / 11, 12);
+  });
+
+  it("moves both ratings by the same amount in opposite directions", () => {
+    expect(updateRatings(1500, 1500, 1)).toEqual([1516, 1484]);
+    expect(updateRatings(1500, 1500, 0)).toEqual([1484, 1516]);
+    expect(updateRatings(1500, 1500, 0.5)).toEqual([1500, 1500]);
+
+    const [underdog, favourite] = updateRatings(1100, 1500, 1);
+    expect(underdog).toBeCloseTo(1100 + 32 * (10 / 11), 10);
+    expect(favourite).toBeCloseTo(1500 - 32 * (10 / 11), 10);
+  });
+
+  it("counts a draw as half a win, which lifts the weaker player", () => {
+    const [weaker, stronger] = updateRatings(1400, 1600, 0.5);
+
+    expect(weaker).toBeCloseTo(1400 + 32 * (0.5 - 1 / (1 + 10 ** 0.5)), 10);
+    expect(weaker + stronger).toBeCloseTo(3000, 10);
+  });
+
+  it("replays finished games in id order regardless of the order they are passed in", () => {
+    const games = [
+      createGame(2, "draw", { "player-one": CAROL, "player-two": ALICE }),
+      createGame(0, "won"),
+      createGame(1, "won", { "player-one": BOB, "player-two": CAROL, winner: CAROL }),
+    ];
+
+    // Game 0: Alice beats Bob, both at 1500
+    const [alice0, bob0] = updateRatings(1500, 1500, 1);
+    // Game 1: Carol (1500) beats Bob
+    const [bob1, carol1] = updateRatings(bob0, 1500, 0);
+    // Game 2: Carol and Alice draw
+    const [carol2, alice2] = updateRatings(carol1, alice0, 0.5);
+
+    const ratings = computeRatings(games);
+    const byPlayer = new Map(ratings.map((rating) => [rating.player, rating]));
+    expect(byPlayer.get(ALICE)?.rating).toBe(alice2);
+    expect(byPlayer.get(BOB)?.rating).toBe(bob1);
+    expect(byPlayer.get(CAROL)?.rating).toBe(carol2);
+    expect(computeRatings([...games].reverse())).toEqual(ratings);
+  });
+
+  it("tracks games played, results and winnings, ignoring games that are not finished", () => {
+    const ratings = computeRatings([
+      createGame(0, "won", { winner: BOB, "bet-amount": 3000000n }),
+      createGame(1, "draw", { "bet-amount": 5000000n }),
+      createGame(2, "won", {
+        "player-one": BOB,
+        "player-two": ALICE,
+        winner: BOB,
+        "bet-amount": 2000000n,
+      }),
+      createGame(3, "waiting"),
+      createGame(4, "in-progress", { "player-one": CAROL, "player-two": ALICE }),
+    ]);
+
+    expect(ratings.map((rating) => rating.player)).toEqual([BOB, ALICE]);
+    expect(ratings[0]).toMatchObject({
+      gamesPlayed: 3,
+      wins: 2,
+      losses: 0,
+      draws: 1,
+      winnings: 5000000n,
+    });
+    expect(ratings[1]).toMatchObject({
+      gamesPlayed: 3,
+      wins: 0,
+      losses: 2,
+      draws: 1,
+      winnings: -5000000n,
+    });
+    expect(ratings[0].rating + ratings[1].rating).toBeCloseTo(2 * INITIAL_RATING, 10);
+  });
+
+  it("has no entries before the first finished game", () => {
+    expect(computeRatings([])).toEqual([]);
+    expect(computeRatings([createGame(0, "waiting")])).toEqual([]);
+  });
+
+});
@@ -0,0 +1,218 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { Cl, serializeCV } from "@stacks/transactions";
+import { Move } from "@/lib/contract";
+import { getNetworkConfig } from "@/lib/network";
+import {
+  ApiTransaction,
+  buildReplay,
+  decodeGameEvent,
+  deserializeReplay,
+  fetchGameActivity,
+  fetchGameReplay,
+  isReplayFinished,
+  serializeReplay,
+} from "@/lib/replay";
+import { FixtureServer, startFixtureServer } from "./fixtures/stacks-api-server";
+import {
+  createGameTransaction,
+  joinGameTransaction,
+  listed,
+  playTransaction,
+} from "./fixtures/game-transactions";
+
+const ALICE = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const BOB = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+const CAROL = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+
+const { X, O, EMPTY: _ } = Move;
+
+const baseConfig = getNetworkConfig("devnet");
+const CONTRACT_ID = `${baseConfig.contractAddress}.${baseConfig.contractName}`;
+
+// Serve the transactions newest first, split into pages of 50 like the Stacks API
+function transactionRoutes(transactions: ApiTransaction[]) {
+  const newestFirst = [...transactions].sort(
+    (a, b) => b.block_height - a.block_height || b.tx_index - a.tx_index
+  );
+  const routes: Record<string, unknown> = {};
+  for (let offset = 0; offset < newestFirst.length || offset === 0; offset += 50) {
+    routes[`/extended/v1/address/${CONTRACT_ID}/transactions?limit=50&offset=${offset}`] = {
+      limit: 50,
+      offset,
+      total: newestFirst.length,
+      results: newestFirst.slice(offset, offset + 50).map(listed),
+    };
+  }
+  for (const transaction of transactions) {
+    routes[`/extended/v1/tx/${transaction.tx_id}`] = transaction;
+  }
+  return routes;
+}
+
+// Game 1: Alice wins on the 2-4-6 diagonal. Game 0 and game 2 are played around it,
+// and Bob's move out of turn is rejected by the contract.
+function playedGames() {
+  const on = (sender: string, blockHeight: number, txIndex = 0) => ({
+    contractId: CONTRACT_ID,
+    sender,
+    blockHeight,
+    txIndex,
+  });
+
+  const gameOne = [
+    createGameTransaction(1, 2000000n, 4, on(ALICE, 10)),
+    joinGameTransaction(1, 0, on(BOB, 11)),
+    playTransaction(1, 8, O, { ...on(BOB, 12), status: "abort_by_response" }),
+    playTransaction(1, 2, X, on(ALICE, 12, 1)),
+    playTransaction(1, 1, O, on(BOB, 13)),
+    playTransaction(1, 6, X, { ...on(ALICE, 14), winner: ALICE }),
+  ];
+  const otherGames = [
+    createGameTransaction(0, 1000000n, 0, on(CAROL, 5)),
+    joinGameTransaction(0, 1, on(BOB, 11, 1)),
+    createGameTransaction(2, 1000000n, 0, on(CAROL, 19)),
+    // Enough later transactions of game 2 that game 1 only shows up on the second page
+    ...Array.from({ length: 55 }, (_, index) =>
+      playTransaction(2, index % 9, X, on(CAROL, 20 + index))
+    ),
+  ];
+  return { gameOne, transactions: [...gameOne, ...otherGames] };
+}
+
+describe("Game replay", () => {
+  let server: FixtureServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("reconstructs every move of a game from its transactions", async () => {
+    const { gameOne, transactions } = playedGames();
+    server = await startFixtureServer(transactionRoutes(transactions));
+
+    const steps = await fetchGameReplay(
+      1,
+      getNetworkConfig("devnet", { apiUrl: server.url })
+    );
+
+    expect(steps.map((step) => [step.functionName, step.player, step.moveIndex, step.move])).toEqual([
+      ["create-game", ALICE, 4, X],
+      ["join-game", BOB, 0, O],
+      ["play", ALICE, 2, X],
+      ["play", BOB, 1, O],
+      ["play", ALICE, 6, X],
+    ]);
+    expect(steps.map((step) => step.board)).toEqual([
+      [_, _, _, _, X, _, _, _, _],
+      [O, _, _, _, X, _, _, _, _],
+      [O, _, X, _, X, _, _, _, _],
+      [O, O, X, _, X, _, _, _, _],
+      [O, O, X, _, X, _, X, _, _],
+    ]);
+    expect(steps[0].txId).toBe(gameOne[0].tx_id);
+    expect(steps[0].event).toEqual({
+      action: "create-game",
+      gameId: 1,
+      player: ALICE,
+      betAmount: 2000000n,
+      moveIndex: 4,
+      invitedOpponent: null,
+    });
+    expect(steps[4].event).toEqual({
+      action: "play",
+      gameId: 1,
+      player: ALICE,
+      moveIndex: 6,
+      winner: ALICE,
+      isDraw: false,
+    });
+  });
+
+  it("sends replays as JSON and tells whether they are finished", async () => {
+    const { transactions } = playedGames();
+    server = await startFixtureServer(transactionRoutes(transactions));
+    const steps = await fetchGameReplay(
+      1,
+      getNetworkConfig("devnet", { apiUrl: server.url })
+    );
+
+    const json = JSON.parse(JSON.stringify(serializeReplay(steps)));
+
+    expect(json[0].event.betAmount).toBe("2000000");
+    expect(deserializeReplay(json)).toEqual(steps);
+    expect(isReplayFinished(steps)).toBe(true);
+    expect(isReplayFinished(steps.slice(0, -1))).toBe(false);
+    expect(isReplayFinished([])).toBe(false);
+  });
+
+  it("stops paging once the create-game call is found and only fetches the game's transactions", async () => {
+    const { transactions } = playedGames();
+    server = await startFixtureServer(transactionRoutes(transactions));
+
+    await fetchGameReplay(1, getNetworkConfig("devnet", { apiUrl: server.url }));
+
+    const listRequests = server.requests.filter((path) => path.includes("/transactions?"));
+    const detailRequests = server.requests.filter((path) => path.startsWith("/extended/v1/tx/"));
+    expect(listRequests).toHaveLength(2);
+    // The rejected move is not fetched
+    expect(detailRequests).toHaveLength(5);
+  });
+
+  it("fails when the create-game call of the game is not in the history", async () => {
+    const { transactions } = playedGames();
+    server = await startFixtureServer(transactionRoutes(transactions));
+
+    await expect(
+      fetchGameReplay(7, getNetworkConfig("devnet", { apiUrl: server.url }))
+    ).rejects.toThrow("Could not find the transactions of game 7");
+  });
+
+  it("fails when the Stacks API does", async () => {
+    server = await startFixtureServer({});
+
+    await expect(
+      fetchGameReplay(1, getNetworkConfig("devnet", { apiUrl: server.url }))
+    ).rejects.toThrow("Stacks API returned status 404");
+  });
+
+  it("finds the block of the last successful transaction of every game", async () => {
+    const { transactions } = playedGames();
+    server = await startFixtureServer(transactionRoutes(transactions));
+    const config = getNetworkConfig("devnet", { apiUrl: server.url });
+
+    // Bob's rejected move in block 12 does not count, Alice won game 1 in block 14
+    expect(await fetchGameActivity(config)).toEqual(
+      new Map([
+        [2, 74],
+        [1, 14],
+        [0, 11],
+      ])
+    );
+    // Games without a transaction on the pages looked at are left out
+    expect(await fetchGameActivity(config, 1)).toEqual(new Map([[2, 74]]));
+  });
+
+  it("builds the moves from the call arguments when events are missing", () => {
+    const options = { contractId: CONTRACT_ID, blockHeight: 1, withoutEvents: true };
+    const steps = buildReplay(
+      [
+        joinGameTransaction(3, 8, { ...options, sender: BOB, blockHeight: 2 }),
+        createGameTransaction(3, 1000000n, 0, { ...options, sender: ALICE }),
+      ],
+      CONTRACT_ID
+    );
+
+    expect(steps.map((step) => step.functionName)).toEqual(["create-game", "join-game"]);
+    expect(steps[1].board).toEqual([X, _, _, _, _, _, _, _, O]);
+    expect(steps.every((step) => step.event === null)).toBe(true);
+  });
+
+  it("ignores print events that are not game events", () => {
+    expect(decodeGameEvent(`0x${serializeCV(Cl.stringAscii("hello"))}`)).toBeNull();
+    expect(
+      decodeGameEvent(`0x${serializeCV(Cl.tuple({ action: Cl.stringAscii("vote"), "game-id": Cl.uint(1) }))}`)
+    ).toBeNull();
+  });
+
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_BOARD, Move } from "@/lib/contract";
+import {
+  chooseMove,
+  evaluatePosition,
+  getBestMoves,
+  getEmptyCells,
+  getOpponent,
+  getTurn,
+  getWinner,
+  isGameOver,
+  scoreMoves,
+} from "@/lib/solver";
+
+const { X, O, EMPTY: _ } = Move;
+
+// Every position that can come up in a game, keyed by its cells
+function reachablePositions() {
+  const positions = new Map<string, Move[]>();
+  const visit = (board: Move[]) => {
+    const key = board.join("");
+    if (positions.has(key)) return;
+    positions.set(key, board);
+    if (isGameOver(board)) return;
+    for (const index of getEmptyCells(board)) {
+      const next = [...board];
+      next[index] = getTurn(board);
+      visit(next);
+    }
+  };
+  visit([...EMPTY_BOARD]);
+  return positions;
+}
+
+const positions = reachablePositions();
+
+// Plain minimax without pruning, the outcome for the side to move: 1 win, 0 draw, -1 loss
+const referenceValues = new Map<string, number>();
+function referenceValue(board: Move[]): number {
+  const key = board.join("");
+  const cached = referenceValues.get(key);
+  if (cached !== undefined) return cached;
+
+  let value: number;
+  if (getWinner(board) !== null) value = -1;
+  else if (getEmptyCells(board).length === 0) value = 0;
+  else {
+    value = Math.max(
+      ...getEmptyCells(board).map((index) => {
+        const next = [...board];
+        next[index] = getTurn(board);
+        return 0 - referenceValue(next);
+      })
+    );
+  }
+  referenceValues.set(key, value);
+  return value;
+}
+
+// The worst result `player` can end up with when it plays any of the best moves and the
+// opponent plays anything: 1 win, 0 draw, -1 loss
+const worstResults = new Map<string, number>();
+function worstResult(board: Move[], player: Move): number {
+  const key = `${board.join("")}${player}`;
+  const cached = worstResults.get(key);
+  if (cached !== undefined) return cached;
+
+  let result: number;
+  const winner = getWinner(board);
+  if (winner !== null) result = winner === player ? 1 : -1;
+  else if (getEmptyCells(board).length === 0) result = 0;
+  else {
+    const turn = getTurn(board);
+    const cells = turn === player ? getBestMoves(board) : getEmptyCells(board);
+    result = Math.min(
+      ...cells.map((index) => {
+        const next = [...board];
+        next[index] = turn;
+        return worstResult(next, player);
+      })
+    );
+  }
+  worstResults.set(key, result);
+  return result;
+}
+
+describe("Solver", () => {
+
+  it("finds every reachable position", () => {
+    expect(positions.size).toBe(5478);
+  });
+
+  it("scores every reachable position like a full minimax search", () => {
+    for (const board of positions.values()) {
+      if (isGameOver(board)) continue;
+      expect(Math.sign(evaluatePosition(board))).toBe(referenceValue(board));
+    }
+    expect(evaluatePosition(EMPTY_BOARD)).toBe(0);
+  });
+
+  it("never loses with perfect play from any reachable position", () => {
+    for (const board of positions.values()) {
+      if (isGameOver(board)) continue;
+      const player = getTurn(board);
+      // Lost positions stay lost, every other position keeps at least its value
+      expect(worstResult(board, player)).toBe(referenceValue(board));
+    }
+    expect(worstResult([...EMPTY_BOARD], X)).toBe(0);
+    for (const index of getEmptyCells(EMPTY_BOARD)) {
+      const board = [...EMPTY_BOARD];
+      board[index] = X;
+      expect(worstResult(board, O)).toBe(0);
+    }
+  });
+
+  it("prefers the fastest win", () => {
+    // X wins right away on 2, playing 8 also wins but only after O moved
+    const board = [X, X, _, O, O, _, _, _, _];
+    expect(getBestMoves(board)).toEqual([2]);
+    expect(chooseMove(board, "perfect")).toBe(2);
+  });
+
+  it("scores each empty cell for the side to move", () => {
+    const scores = scoreMoves([X, O, X, _, O, _, _, _, _]);
+    const winning = scores.filter(({ score }) => score > 0).map(({ index }) => index);
+
+    // X has to block on 7, any other cell lets O complete the middle column
+    expect(scores.map(({ index }) => index)).toEqual([3, 5, 6, 7, 8]);
+    expect(winning).toEqual([]);
+    expect(scores.find(({ index }) => index === 7)?.score).toBe(0);
+    expect(scores.filter(({ score }) => score < 0)).toHaveLength(4);
+    expect(scoreMoves([X, X, X, O, O, _, _, _, _])).toEqual([]);
+  });
+
+  it("lets medium win and block but otherwise play at random", () => {
+    const first = () => 0;
+    // X completes the middle row instead of blocking the top row
+    expect(chooseMove([O, O, _, X, X, _, _, X, O], "medium", first)).toBe(5);
+    expect(chooseMove([O, O, _, X, _, _, X, _, _], "medium", first)).toBe(2);
+    expect(chooseMove([X, _, _, _, _, _, _, _, _], "medium", first)).toBe(1);
+    expect(getTurn([O, O, _, X, X, _, _, X, O])).toBe(X);
+    expect(getOpponent(O)).toBe(X);
+  });
+
+  it("only picks free cells and gives up once the game is over", () => {
+    const board = [X, O, X, O, X, O, _, _, O];
+    for (let i = 0; i < 20; i++) {
+      const random = () => i / 20;
+      expect([6, 7]).toContain(chooseMove(board, "easy", random));
+    }
+    expect(chooseMove([X, X, X, O, O, _, _, _, _], "perfect")).toBe(-1);
+    expect(chooseMove([X, O, X, X, O, O, O, X, X], "easy")).toBe(-1);
+  });
+
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { uintCV } from "@stacks/transactions";
+import { buildPostConditions, GameContractCall } from "@/lib/post-conditions";
+import {
+  createWalletStore,
+  findStxAddress,
+  WalletContractCall,
+  WalletStorage,
+} from "@/lib/wallet";
+import { createMockWallet } from "./fixtures/mock-wallet";
+
+const TESTNET_ADDRESS = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const MAINNET_ADDRESS = "SP1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const OTHER_TESTNET_ADDRESS = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+function memoryStorage(): WalletStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+  };
+}
+
+function createGameCall(): WalletContractCall {
+  const call: GameContractCall = {
+    contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+    contractName: "tic-tac-toe",
+    functionName: "create-game",
+    functionArgs: [uintCV(1000000), uintCV(4), uintCV(1)],
+  };
+  return {
+    ...call,
+    ...buildPostConditions(call, TESTNET_ADDRESS),
+    network: "testnet",
+  };
+}
+
+describe("Wallet store", () => {
+
+  it("picks the address of the network", () => {
+    const addresses = [MAINNET_ADDRESS, TESTNET_ADDRESS];
+    expect(findStxAddress(addresses, "mainnet")).toBe(MAINNET_ADDRESS);
+    expect(findStxAddress(addresses, "testnet")).toBe(TESTNET_ADDRESS);
+    expect(findStxAddress(addresses, "devnet")).toBe(TESTNET_ADDRESS);
+    expect(findStxAddress([MAINNET_ADDRESS], "testnet")).toBeNull();
+  });
+
+  it("connects without a reload and notifies subscribers", async () => {
+    const wallet = createMockWallet({ addresses: [TESTNET_ADDRESS] });
+    const store = createWalletStore([wallet.provider], memoryStorage());
+    const statuses: string[] = [];
+    store.subscribe(() => statuses.push(store.getState().status));
+
+    store.openPicker();
+    expect(await store.connect("MockWallet", "testnet")).toBe(true);
+
+    expect(store.getState()).toMatchObject({
+      status: "connected",
+      providerId: "MockWallet",
+      addresses: [TESTNET_ADDRESS],
+      isPickerOpen: false,
+    });
+    expect(statuses).toEqual(["disconnected", "connecting", "connected"]);
+  });
+
+  it("restores the connection without asking the wallet again", async () => {
+    const storage = memoryStorage();
+    const wallet = createMockWallet({ addresses: [TESTNET_ADDRESS] });
+    await createWalletStore([wallet.provider], storage).connect("MockWallet", "testnet");
+
+    const store = createWalletStore([wallet.provider], storage);
+    store.subscribe(() => {});
+
+    expect(store.getState()).toMatchObject({ status: "connected", addresses: [TESTNET_ADDRESS] });
+    expect(wallet.connectRequests).toBe(1);
+  });
+
+  it("follows account switches made in the wallet", async () => {
+    const storage = memoryStorage();
+    const wallet = createMockWallet({ addresses: [TESTNET_ADDRESS] });
+    const store = createWalletStore([wallet.provider], storage);
+    await store.connect("MockWallet", "testnet");
+
+    wallet.switchAccount([OTHER_TESTNET_ADDRESS]);
+    expect(store.getState().addresses).toEqual([OTHER_TESTNET_ADDRESS]);
+    expect(storage.data.get("tic-tac-toe:wallet")).toContain(OTHER_TESTNET_ADDRESS);
+
+    // Revoking access in the wallet disconnects the app
+    wallet.switchAccount([]);
+    expect(store.getState().status).toBe("disconnected");
+    expect(storage.data.size).toBe(0);
+  });
+
+  it("stays disconnected when the user cancels or the wallet has no address", async () => {
+    const wallet = createMockWallet({ addresses: [MAINNET_ADDRESS] });
+    const store = createWalletStore([wallet.provider], memoryStorage());
+    store.openPicker();
+
+    wallet.cancelNext();
+    expect(await store.connect("MockWallet", "testnet")).toBe(false);
+    expect(store.getState()).toMatchObject({ status: "disconnected", isPickerOpen: true, error: null });
+
+    expect(await store.connect("MockWallet", "testnet")).toBe(false);
+    expect(store.getState().error).toBe("Mock Wallet did not share a Stacks address");
+    await expect(store.connect("Unknown", "testnet")).rejects.toThrow("Unknown wallet Unknown");
+  });
+
+  it("sends contract calls through the connected wallet", async () => {
+    const wallet = createMockWallet({ addresses: [TESTNET_ADDRESS] });
+    const other = createMockWallet({ id: "OtherWallet", addresses: [TESTNET_ADDRESS] });
+    const store = createWalletStore([wallet.provider, other.provider], memoryStorage());
+    const call = createGameCall();
+
+    await expect(store.callContract(call)).rejects.toThrow("Connect a wallet first");
+
+    await store.connect("OtherWallet", "testnet");
+    expect(await store.callContract(call)).toEqual({ status: "submitted", txId: "0x1" });
+    other.cancelNext();
+    expect(await store.callContract(call)).toEqual({ status: "cancelled" });
+
+    expect(other.calls).toEqual([call]);
+    expect(wallet.calls).toEqual([]);
+  });
+
+  it("forgets the connection on disconnect", async () => {
+    const storage = memoryStorage();
+    const wallet = createMockWallet({ addresses: [TESTNET_ADDRESS] });
+    const store = createWalletStore([wallet.provider], storage);
+    await store.connect("MockWallet", "testnet");
+
+    store.disconnect();
+    wallet.switchAccount([OTHER_TESTNET_ADDRESS]);
+
+    expect(store.getState()).toMatchObject({ status: "disconnected", addresses: [] });
+    expect(storage.data.size).toBe(0);
+    await expect(store.callContract(createGameCall())).rejects.toThrow("Connect a wallet first");
+  });
+
+});
@@ -0,0 +1,30 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./", import.meta.url)),
+    },
+  },
+  test: {
+    projects: [
+      {
+        extends: true,
+        test: { name: "lib", include: ["tests/**/*.test.ts"] },
+      },
+      // Components are rendered into a DOM
+      {
+        extends: true,
+        esbuild: { jsx: "automatic" },
+        test: {
+          name: "components",
+          include: ["tests/**/*.test.tsx"],
+          environment: "jsdom",
+          // The benchmarks only read games, they run in the lib project
+          benchmark: { include: [] },
+        },
+      },
+    ],
+  },
+});
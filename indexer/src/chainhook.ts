@@ -0,0 +1,84 @@
+import { decodeGameEvent, IndexedEvent } from "./events";
+import { GameStore } from "./store";
+
+// The parts of a chainhook Stacks payload the indexer reads. Chainhook delivers the blocks that
+// left the canonical chain in `rollback` and the blocks that joined it in `apply`.
+export type ChainhookPayload = {
+  apply: ChainhookBlock[];
+  rollback: ChainhookBlock[];
+};
+
+export type ChainhookBlock = {
+  block_identifier: { index: number; hash: string };
+  transactions: ChainhookTransaction[];
+};
+
+export type ChainhookTransaction = {
+  transaction_identifier: { hash: string };
+  metadata: {
+    success: boolean;
+    position?: { index: number };
+    receipt: { events: ChainhookEvent[] };
+  };
+};
+
+export type ChainhookEvent = {
+  type: string;
+  position?: { index: number };
+  data: {
+    contract_identifier?: string;
+    topic?: string;
+    raw_value?: string;
+  };
+};
+
+// The game events the contract printed in a block
+export function getBlockEvents(
+  block: ChainhookBlock,
+  contractId: string
+): IndexedEvent[] {
+  return block.transactions.flatMap((transaction, txIndex) => {
+    if (!transaction.metadata.success) return [];
+
+    return transaction.metadata.receipt.events.flatMap((event, eventIndex) => {
+      const { contract_identifier, topic, raw_value } = event.data;
+      if (
+        event.type !== "SmartContractEvent" ||
+        contract_identifier !== contractId ||
+        topic !== "print" ||
+        !raw_value
+      ) {
+        return [];
+      }
+
+      const decoded = decodeGameEvent(raw_value);
+      if (!decoded) return [];
+      return [
+        {
+          txId: transaction.transaction_identifier.hash,
+          eventIndex: event.position?.index ?? eventIndex,
+          blockHeight: block.block_identifier.index,
+          blockHash: block.block_identifier.hash,
+          txIndex: transaction.metadata.position?.index ?? txIndex,
+          event: decoded,
+        },
+      ];
+    });
+  });
+}
+
+// Roll back first and apply second, like chainhook orders a reorg. Both steps are idempotent,
+// so a payload that is delivered again leaves the store unchanged.
+export function ingestChainhookPayload(
+  store: GameStore,
+  payload: ChainhookPayload,
+  contractId: string
+) {
+  const rolledBack = store.rollbackBlocks(
+    (payload.rollback ?? []).map((block) => block.block_identifier.hash)
+  );
+  const applied = store.applyEvents(
+    (payload.apply ?? []).flatMap((block) => getBlockEvents(block, contractId))
+  );
+  return { applied, rolledBack };
+}
@@ -0,0 +1,42 @@
+import { hexToCV } from "@stacks/transactions";
+import {
+  decodeGameEventValue,
+  GameEvent,
+} from "../../frontend/lib/game-events";
+
+// The events are decoded by the same module as the frontend's replays
+export type { GameEvent };
+
+// A print event together with where it was mined. Events are ordered by
+// block height, position of the transaction in the block and position in the transaction.
+export type IndexedEvent = {
+  txId: string;
+  eventIndex: number;
+  blockHeight: number;
+  blockHash: string;
+  txIndex: number;
+  event: GameEvent;
+};
+
+// Decode the hex encoded payload of a print event, null for values that are not game events
+export function decodeGameEvent(hex: string): GameEvent | null {
+  return decodeGameEventValue(hexToCV(hex));
+}
+
+// Events are stored as JSON, which has no bigint
+export function serializeGameEvent(event: GameEvent) {
+  return JSON.stringify(event, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+}
+
+export function deserializeGameEvent(json: string): GameEvent {
+  const event = JSON.parse(json);
+  return event.action === "create-game"
+    ? {
+        ...event,
+        betAmount: BigInt(event.betAmount),
+        invitedOpponent: event.invitedOpponent ?? null,
+      }
+    : event;
+}
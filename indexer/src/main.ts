@@ -0,0 +1,52 @@
+import { createIndexerServer } from "./server";
+import { syncFromStacksApi } from "./stacks-api";
+import { openGameStore } from "./store";
+
+const port = Number(process.env.INDEXER_PORT ?? 3100);
+const dbPath = process.env.INDEXER_DB_PATH ?? "data/indexer.sqlite";
+const contractId = process.env.CONTRACT_ID ?? "";
+// Without an API url the indexer only receives chainhook payloads
+const apiUrl = process.env.STACKS_API_URL;
+const syncInterval = Number(process.env.SYNC_INTERVAL ?? 30000); // 30 seconds
+const authToken = process.env.CHAINHOOK_AUTH_TOKEN;
+
+if (!contractId) {
+  console.error(
+    "Set CONTRACT_ID to the tic-tac-toe contract, e.g. ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.tic-tac-toe"
+  );
+  process.exit(1);
+}
+
+const store = await openGameStore(dbPath);
+const server = createIndexerServer(store, { contractId, authToken });
+server.listen(port, () => {
+  console.log(`Indexer for ${contractId} listening on port ${port}`);
+});
+
+// Poll the events endpoint, chainhook payloads that arrive in between are merged idempotently
+async function sync(url: string) {
+  try {
+    const { applied } = await syncFromStacksApi(store, {
+      apiUrl: url,
+      contractId,
+    });
+    if (applied > 0) {
+      store.save();
+      console.log(`Indexed ${applied} new events`);
+    }
+  } catch (error) {
+    console.error("Failed to sync from the Stacks API:", error);
+  }
+  setTimeout(() => sync(url), syncInterval);
+}
+
+if (apiUrl) sync(apiUrl);
+
+function shutdown() {
+  server.close();
+  store.save();
+  store.close();
+  process.exit(0);
+}
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,125 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { ChainhookPayload, ingestChainhookPayload } from "./chainhook";
+import { GameStore } from "./store";
+
+// Upper bound for the number of games a single request can ask for, like the /api/games route
+const MAX_GAMES_PER_REQUEST = 50;
+const DEFAULT_GAMES_PAGE_SIZE = 12;
+
+export type IndexerServerOptions = {
+  contractId: string;
+  // Chainhook sends this as a bearer token, payloads without it are rejected when it is set
+  authToken?: string;
+};
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.statusCode = status;
+  response.setHeader("Content-Type", "application/json");
+  response.end(JSON.stringify(body));
+}
+
+function parseId(value: string | null) {
+  if (value === null) return null;
+  const id = Number(value);
+  return Number.isInteger(id) && id >= 0 ? id : null;
+}
+
+async function readJson(request: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+// GET  /games?cursor=&limit=   games newest first, in the shape of the frontend's /api/games
+// GET  /games/all              every game and the block of its latest event
+// GET  /games/:id              a single game
+// GET  /games/:id/moves        the moves of a game in the order they were played
+// GET  /payouts?player=        payouts of finished games, optionally of one player
+// GET  /status                 number of events and games and the last indexed block
+// POST /chainhook              chainhook payloads with apply and rollback blocks
+export function createIndexerServer(
+  store: GameStore,
+  { contractId, authToken }: IndexerServerOptions
+) {
+  async function handle(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    if (request.method === "POST" && url.pathname === "/chainhook") {
+      if (
+        authToken &&
+        request.headers.authorization !== `Bearer ${authToken}`
+      ) {
+        return sendJson(response, 401, { error: "Unauthorized" });
+      }
+      let payload: ChainhookPayload;
+      try {
+        payload = await readJson(request);
+      } catch {
+        return sendJson(response, 400, { error: "Invalid JSON payload" });
+      }
+      const result = ingestChainhookPayload(store, payload, contractId);
+      store.save();
+      return sendJson(response, 200, result);
+    }
+
+    if (request.method !== "GET") {
+      return sendJson(response, 405, { error: "Method not allowed" });
+    }
+
+    if (segments[0] === "games" && segments.length === 1) {
+      const cursor = url.searchParams.get("cursor");
+      const limit = url.searchParams.get("limit");
+      const parsedCursor = parseId(cursor);
+      if (cursor !== null && parsedCursor === null) {
+        return sendJson(response, 400, { error: "Invalid cursor parameter" });
+      }
+      const parsedLimit =
+        limit === null ? DEFAULT_GAMES_PAGE_SIZE : parseId(limit);
+      if (!parsedLimit || parsedLimit > MAX_GAMES_PER_REQUEST) {
+        return sendJson(response, 400, {
+          error: `Limit must be between 1 and ${MAX_GAMES_PER_REQUEST}`,
+        });
+      }
+      return sendJson(response, 200, store.getGames(parsedCursor, parsedLimit));
+    }
+
+    if (url.pathname === "/games/all") {
+      return sendJson(response, 200, store.getAllGames());
+    }
+
+    const isMovesPath = segments.length === 3 && segments[2] === "moves";
+    if (segments[0] === "games" && (segments.length === 2 || isMovesPath)) {
+      const gameId = parseId(segments[1]);
+      if (gameId === null) {
+        return sendJson(response, 400, { error: "Invalid game id" });
+      }
+      const game = store.getGame(gameId);
+      if (!game) return sendJson(response, 404, { error: "Game not found" });
+      return isMovesPath
+        ? sendJson(response, 200, { moves: store.getMoves(gameId) })
+        : sendJson(response, 200, { game });
+    }
+
+    if (url.pathname === "/payouts") {
+      return sendJson(response, 200, {
+        payouts: store.getPayouts(url.searchParams.get("player")),
+      });
+    }
+
+    if (url.pathname === "/status") {
+      return sendJson(response, 200, store.getStatus());
+    }
+
+    return sendJson(response, 404, { error: "Not found" });
+  }
+
+  return createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      console.error(`Error handling ${request.method} ${request.url}:`, error);
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: "Internal server error" });
+      }
+    });
+  });
+}
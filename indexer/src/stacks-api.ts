@@ -0,0 +1,158 @@
+import { decodeGameEvent, GameEvent, IndexedEvent } from "./events";
+import { GameStore } from "./store";
+
+// Number of events requested per page, the maximum the Stacks API allows
+const EVENTS_PAGE_SIZE = 50;
+// Maximum number of transaction lookups in flight at the same time
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// An event of /extended/v1/contract/{contract_id}/events
+export type ApiContractEvent = {
+  event_index: number;
+  event_type: string;
+  tx_id: string;
+  contract_log?: {
+    contract_id: string;
+    topic: string;
+    value: { hex: string; repr: string };
+  };
+};
+
+// The parts of /extended/v1/tx/{tx_id} that tell where a transaction was mined. Chainhook
+// identifies blocks by their index block hash, so that is the hash events are stored with.
+export type ApiTransaction = {
+  tx_id: string;
+  tx_status: string;
+  canonical: boolean;
+  block_height: number;
+  block_hash: string;
+  index_block_hash: string;
+  tx_index: number;
+};
+
+export type StacksApiOptions = {
+  apiUrl: string;
+  contractId: string;
+};
+
+async function fetchApi<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Stacks API returned status ${response.status} for ${url}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  }
+  await Promise.all(
+    Array.from(
+      { length: Math.min(MAX_CONCURRENT_REQUESTS, items.length) },
+      worker
+    )
+  );
+  return results;
+}
+
+// Read the events of the contract newest first until one that is stored from a block below the
+// height of the last complete sync shows up, then look up the block of every new transaction
+// since the events endpoint does not return it. Events that are already stored, e.g. delivered
+// by chainhook, are skipped without ending the walk, so the first sync reads the whole history
+// even when chainhook delivered the newest blocks first. Later syncs usually need one page.
+export async function syncFromStacksApi(
+  store: GameStore,
+  { apiUrl, contractId }: StacksApiOptions
+) {
+  const syncedHeight = store.getSyncedHeight();
+  const newEvents: { txId: string; eventIndex: number; event: GameEvent }[] =
+    [];
+  let newestHeight = syncedHeight ?? -1;
+
+  for (let offset = 0; ; offset += EVENTS_PAGE_SIZE) {
+    const { results } = await fetchApi<{ results: ApiContractEvent[] }>(
+      `${apiUrl}/extended/v1/contract/${contractId}/events?limit=${EVENTS_PAGE_SIZE}&offset=${offset}`
+    );
+
+    let reachedSyncedEvents = false;
+    for (const result of results) {
+      const storedHeight = store.getEventBlockHeight(
+        result.tx_id,
+        result.event_index
+      );
+      if (storedHeight !== null) {
+        newestHeight = Math.max(newestHeight, storedHeight);
+        if (syncedHeight !== null && storedHeight < syncedHeight) {
+          reachedSyncedEvents = true;
+          break;
+        }
+        continue;
+      }
+      const log = result.contract_log;
+      if (
+        result.event_type !== "smart_contract_log" ||
+        log?.topic !== "print"
+      ) {
+        continue;
+      }
+      const event = decodeGameEvent(log.value.hex);
+      if (event) {
+        newEvents.push({
+          txId: result.tx_id,
+          eventIndex: result.event_index,
+          event,
+        });
+      }
+    }
+
+    if (reachedSyncedEvents || results.length < EVENTS_PAGE_SIZE) break;
+  }
+
+  const txIds = [...new Set(newEvents.map(({ txId }) => txId))];
+  const transactions = new Map(
+    (
+      await mapWithConcurrency(txIds, (txId) =>
+        fetchApi<ApiTransaction>(`${apiUrl}/extended/v1/tx/${txId}`)
+      )
+    ).map((transaction) => [transaction.tx_id, transaction])
+  );
+
+  // Events of transactions that were reorged out are left to the next sync, which then has to
+  // walk back to them again
+  let deferred = false;
+  const events: IndexedEvent[] = newEvents.flatMap(
+    ({ txId, eventIndex, event }) => {
+      const transaction = transactions.get(txId);
+      if (!transaction?.canonical || transaction.tx_status !== "success") {
+        deferred = true;
+        return [];
+      }
+      newestHeight = Math.max(newestHeight, transaction.block_height);
+      return [
+        {
+          txId,
+          eventIndex,
+          blockHeight: transaction.block_height,
+          blockHash: transaction.index_block_hash,
+          txIndex: transaction.tx_index,
+          event,
+        },
+      ];
+    }
+  );
+
+  const applied = store.applyEvents(events);
+  if (!deferred && newestHeight >= 0) store.setSyncedHeight(newestHeight);
+  return { applied };
+}
@@ -0,0 +1,481 @@
+import {
+  existsSync,
+  mkdirSync,
+  renameSync,
+  writeFileSync,
+  readFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import initSqlJs, { BindParams, Database } from "sql.js";
+import {
+  deserializeGameEvent,
+  GameEvent,
+  IndexedEvent,
+  serializeGameEvent,
+} from "./events";
+
+const EMPTY = 0;
+const X = 1;
+const O = 2;
+
+export type GameStatus = "waiting" | "in-progress" | "won" | "draw";
+
+// Same shape as the games served by the frontend's /api/games routes, bet amounts are
+// strings because JSON has no bigint
+export type IndexedGame = {
+  id: number;
+  "player-one": string;
+  "player-two": string | null;
+  "is-player-one-turn": boolean;
+  "bet-amount": string;
+  board: number[];
+  winner: string | null;
+  status: GameStatus;
+  "invited-opponent": string | null;
+};
+
+export type IndexedMove = {
+  gameId: number;
+  // 0 is the first move of create-game, 1 the move of join-game
+  moveNumber: number;
+  txId: string;
+  player: string;
+  moveIndex: number;
+  move: number;
+  blockHeight: number;
+};
+
+export type IndexedPayout = {
+  gameId: number;
+  player: string;
+  amount: string;
+  txId: string;
+  blockHeight: number;
+};
+
+export type IndexerStatus = {
+  eventCount: number;
+  gameCount: number;
+  lastBlockHeight: number | null;
+};
+
+export type GamesPage = {
+  games: IndexedGame[];
+  // Id of the newest game of the next (older) page, null once game 0 has been reached
+  nextCursor: number | null;
+};
+
+// Every game together with the block of its latest event, for queries of the frontend's lobby
+export type AllGames = {
+  games: IndexedGame[];
+  // [gameId, blockHeight] pairs
+  activity: [number, number][];
+};
+
+export type GameStore = ReturnType<typeof createGameStore>;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    tx_id TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_index INTEGER NOT NULL,
+    game_id INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (tx_id, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_game ON events (game_id);
+  CREATE INDEX IF NOT EXISTS events_by_block ON events (block_hash);
+
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS games (
+    id INTEGER PRIMARY KEY,
+    player_one TEXT NOT NULL,
+    player_two TEXT,
+    is_player_one_turn INTEGER NOT NULL,
+    bet_amount TEXT NOT NULL,
+    board TEXT NOT NULL,
+    winner TEXT,
+    status TEXT NOT NULL,
+    invited_opponent TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS moves (
+    game_id INTEGER NOT NULL,
+    move_number INTEGER NOT NULL,
+    tx_id TEXT NOT NULL,
+    player TEXT NOT NULL,
+    move_index INTEGER NOT NULL,
+    move INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    PRIMARY KEY (game_id, move_number)
+  );
+
+  CREATE TABLE IF NOT EXISTS payouts (
+    game_id INTEGER NOT NULL,
+    player TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    tx_id TEXT NOT NULL,
+    block_height INTEGER NOT NULL,
+    PRIMARY KEY (game_id, player)
+  );
+`;
+
+// Open the store, loading the database file if it exists. Without a path the store only lives
+// in memory, which is what the tests use.
+export async function openGameStore(path: string | null = null) {
+  const SQL = await initSqlJs();
+  const data = path && existsSync(path) ? readFileSync(path) : undefined;
+  return createGameStore(new SQL.Database(data), path);
+}
+
+function createGameStore(db: Database, path: string | null) {
+  db.exec(SCHEMA);
+
+  function all<T>(sql: string, params: BindParams = []): T[] {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  function transaction(fn: () => void) {
+    db.exec("BEGIN");
+    try {
+      fn();
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  // Databases created before challenges were added lack the column, none of their games
+  // invited an opponent
+  const gameColumns = all<{ name: string }>("PRAGMA table_info(games)");
+  if (!gameColumns.some((column) => column.name === "invited_opponent")) {
+    db.exec("ALTER TABLE games ADD COLUMN invited_opponent TEXT");
+  }
+
+  // The games, moves and payouts tables are derived from the events of a game, so they are
+  // rebuilt from scratch whenever events of the game are added or rolled back
+  function rebuildGame(gameId: number) {
+    db.run("DELETE FROM games WHERE id = ?", [gameId]);
+    db.run("DELETE FROM moves WHERE game_id = ?", [gameId]);
+    db.run("DELETE FROM payouts WHERE game_id = ?", [gameId]);
+
+    const rows = all<{ tx_id: string; block_height: number; payload: string }>(
+      `SELECT tx_id, block_height, payload FROM events WHERE game_id = ?
+       ORDER BY block_height, tx_index, event_index`,
+      [gameId]
+    );
+
+    let game: IndexedGame | null = null;
+    let moveNumber = 0;
+    const addMove = (
+      row: { tx_id: string; block_height: number },
+      player: string,
+      moveIndex: number,
+      move: number
+    ) => {
+      db.run("INSERT INTO moves VALUES (?, ?, ?, ?, ?, ?, ?)", [
+        gameId,
+        moveNumber++,
+        row.tx_id,
+        player,
+        moveIndex,
+        move,
+        row.block_height,
+      ]);
+    };
+    const addPayout = (
+      row: { tx_id: string; block_height: number },
+      player: string,
+      amount: bigint
+    ) => {
+      db.run("INSERT INTO payouts VALUES (?, ?, ?, ?, ?)", [
+        gameId,
+        player,
+        amount.toString(),
+        row.tx_id,
+        row.block_height,
+      ]);
+    };
+
+    for (const row of rows) {
+      const event: GameEvent = deserializeGameEvent(row.payload);
+
+      if (event.action === "create-game") {
+        const board = Array(9).fill(EMPTY);
+        board[event.moveIndex] = X;
+        game = {
+          id: gameId,
+          "player-one": event.player,
+          "player-two": null,
+          "is-player-one-turn": false,
+          "bet-amount": event.betAmount.toString(),
+          board,
+          winner: null,
+          status: "waiting",
+          "invited-opponent": event.invitedOpponent,
+        };
+        addMove(row, event.player, event.moveIndex, X);
+        continue;
+      }
+      // Without its create-game event, e.g. after that block was rolled back, there is no game
+      if (!game) continue;
+
+      if (event.action === "join-game") {
+        game.board[event.moveIndex] = O;
+        game["player-two"] = event.player;
+        game["is-player-one-turn"] = true;
+        game.status = "in-progress";
+        addMove(row, event.player, event.moveIndex, O);
+        continue;
+      }
+
+      const move = event.player === game["player-one"] ? X : O;
+      game.board[event.moveIndex] = move;
+      game["is-player-one-turn"] = !game["is-player-one-turn"];
+      addMove(row, event.player, event.moveIndex, move);
+
+      const betAmount = BigInt(game["bet-amount"]);
+      if (event.winner) {
+        game.winner = event.winner;
+        game.status = "won";
+        addPayout(row, event.winner, 2n * betAmount);
+      } else if (event.isDraw) {
+        game.status = "draw";
+        addPayout(row, game["player-one"], betAmount);
+        if (game["player-two"]) addPayout(row, game["player-two"], betAmount);
+      }
+    }
+
+    if (!game) return;
+    db.run("INSERT INTO games VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+      game.id,
+      game["player-one"],
+      game["player-two"],
+      game["is-player-one-turn"] ? 1 : 0,
+      game["bet-amount"],
+      JSON.stringify(game.board),
+      game.winner,
+      game.status,
+      game["invited-opponent"],
+    ]);
+  }
+
+  function hasEvent(txId: string, eventIndex: number) {
+    return (
+      all("SELECT 1 FROM events WHERE tx_id = ? AND event_index = ?", [
+        txId,
+        eventIndex,
+      ]).length > 0
+    );
+  }
+
+  function toGame(row: Record<string, string | number | null>): IndexedGame {
+    return {
+      id: row.id as number,
+      "player-one": row.player_one as string,
+      "player-two": row.player_two as string | null,
+      "is-player-one-turn": row.is_player_one_turn === 1,
+      "bet-amount": row.bet_amount as string,
+      board: JSON.parse(row.board as string),
+      winner: row.winner as string | null,
+      status: row.status as GameStatus,
+      "invited-opponent": row.invited_opponent as string | null,
+    };
+  }
+
+  return {
+    // Store events, delivering the same event again only updates the block it was mined in,
+    // e.g. when a reorg moved its transaction. Returns the number of events that were new.
+    applyEvents(events: IndexedEvent[]) {
+      let added = 0;
+      transaction(() => {
+        const gameIds = new Set<number>();
+        for (const {
+          txId,
+          eventIndex,
+          blockHeight,
+          blockHash,
+          txIndex,
+          event,
+        } of events) {
+          if (!hasEvent(txId, eventIndex)) added++;
+          db.run(
+            `INSERT INTO events VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (tx_id, event_index) DO UPDATE SET
+               block_height = excluded.block_height,
+               block_hash = excluded.block_hash,
+               tx_index = excluded.tx_index`,
+            [
+              txId,
+              eventIndex,
+              blockHeight,
+              blockHash,
+              txIndex,
+              event.gameId,
+              serializeGameEvent(event),
+            ]
+          );
+          gameIds.add(event.gameId);
+        }
+        gameIds.forEach(rebuildGame);
+      });
+      return added;
+    },
+
+    // Drop the events of blocks that are no longer part of the chain. Rolling back a block
+    // that is not stored does nothing, so rollbacks can be delivered more than once.
+    rollbackBlocks(blockHashes: string[]) {
+      let removed = 0;
+      transaction(() => {
+        const gameIds = new Set<number>();
+        for (const blockHash of blockHashes) {
+          all<{ game_id: number }>(
+            "SELECT DISTINCT game_id FROM events WHERE block_hash = ?",
+            [blockHash]
+          ).forEach((row) => gameIds.add(row.game_id));
+          db.run("DELETE FROM events WHERE block_hash = ?", [blockHash]);
+          removed += db.getRowsModified();
+        }
+        gameIds.forEach(rebuildGame);
+      });
+      return removed;
+    },
+
+    hasEvent,
+
+    // Block the event was mined in, null for events that are not stored
+    getEventBlockHeight(txId: string, eventIndex: number): number | null {
+      const [row] = all<{ block_height: number }>(
+        "SELECT block_height FROM events WHERE tx_id = ? AND event_index = ?",
+        [txId, eventIndex]
+      );
+      return row ? row.block_height : null;
+    },
+
+    // Every event up to this block has been read from the Stacks API, null before the first
+    // complete sync
+    getSyncedHeight(): number | null {
+      const [row] = all<{ value: number }>(
+        "SELECT value FROM sync_state WHERE key = 'synced_height'"
+      );
+      return row ? row.value : null;
+    },
+
+    setSyncedHeight(height: number) {
+      db.run(
+        `INSERT INTO sync_state VALUES ('synced_height', ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value`,
+        [height]
+      );
+    },
+
+    getGame(gameId: number): IndexedGame | null {
+      const [row] = all<Record<string, string | number | null>>(
+        "SELECT * FROM games WHERE id = ?",
+        [gameId]
+      );
+      return row ? toGame(row) : null;
+    },
+
+    // Games newest first, starting at the cursor
+    getGames(cursor: number | null, limit: number): GamesPage {
+      const rows = all<Record<string, string | number | null>>(
+        "SELECT * FROM games WHERE id <= ? ORDER BY id DESC LIMIT ?",
+        [cursor ?? Number.MAX_SAFE_INTEGER, limit + 1]
+      );
+      const games = rows.slice(0, limit).map(toGame);
+      return {
+        games,
+        nextCursor: rows.length > limit ? (rows[limit].id as number) : null,
+      };
+    },
+
+    // Every game newest first, the lobby filters and sorts them
+    getAllGames(): AllGames {
+      const games = all<Record<string, string | number | null>>(
+        "SELECT * FROM games ORDER BY id DESC"
+      ).map(toGame);
+      const activity = all<{ game_id: number; block_height: number }>(
+        `SELECT game_id, MAX(block_height) AS block_height FROM events
+         GROUP BY game_id ORDER BY game_id`
+      ).map((row): [number, number] => [row.game_id, row.block_height]);
+      return { games, activity };
+    },
+
+    getMoves(gameId: number): IndexedMove[] {
+      return all<Record<string, string | number>>(
+        "SELECT * FROM moves WHERE game_id = ? ORDER BY move_number",
+        [gameId]
+      ).map((row) => ({
+        gameId: row.game_id as number,
+        moveNumber: row.move_number as number,
+        txId: row.tx_id as string,
+        player: row.player as string,
+        moveIndex: row.move_index as number,
+        move: row.move as number,
+        blockHeight: row.block_height as number,
+      }));
+    },
+
+    getPayouts(player: string | null = null): IndexedPayout[] {
+      return all<Record<string, string | number>>(
+        player === null
+          ? "SELECT * FROM payouts ORDER BY game_id DESC, player"
+          : "SELECT * FROM payouts WHERE player = ? ORDER BY game_id DESC, player",
+        player === null ? [] : [player]
+      ).map((row) => ({
+        gameId: row.game_id as number,
+        player: row.player as string,
+        amount: row.amount as string,
+        txId: row.tx_id as string,
+        blockHeight: row.block_height as number,
+      }));
+    },
+
+    getStatus(): IndexerStatus {
+      const [row] = all<{
+        event_count: number;
+        game_count: number;
+        last_block_height: number | null;
+      }>(
+        `SELECT
+           (SELECT COUNT(*) FROM events) AS event_count,
+           (SELECT COUNT(*) FROM games) AS game_count,
+           (SELECT MAX(block_height) FROM events) AS last_block_height`
+      );
+      return {
+        eventCount: row.event_count,
+        gameCount: row.game_count,
+        lastBlockHeight: row.last_block_height,
+      };
+    },
+
+    // Write the database to its file, through a temporary file so a crash never leaves half a file
+    save() {
+      if (!path) return;
+      mkdirSync(dirname(path), { recursive: true });
+      const temporaryPath = `${path}.tmp`;
+      writeFileSync(temporaryPath, db.export());
+      renameSync(temporaryPath, path);
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,215 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Cl, serializeCV } from "@stacks/transactions";
+import { afterEach, describe, it, expect } from "vitest";
+import { ChainhookPayload, ingestChainhookPayload } from "../src/chainhook";
+import { GameStore, openGameStore } from "../src/store";
+import blockPayloads from "./fixtures/chainhook-blocks.json";
+import reorgPayload from "./fixtures/chainhook-reorg.json";
+
+const CONTRACT_ID = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.tic-tac-toe";
+const ALICE = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const BOB = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+const CAROL = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+
+// Recorded chainhook payloads: one per block from 100 to 106. Game 0 is won by Alice in block 103,
+// game 1 ends in a draw in block 106. Block 102 has a failed transaction and block 103 a print of
+// another contract, neither is indexed. The events were recorded before challenges were added.
+const blocks = blockPayloads as ChainhookPayload[];
+// Replaces block 106 with a fork where game 2 is created first and the draw is mined in block 107
+const reorg = reorgPayload as ChainhookPayload;
+
+function snapshot(store: GameStore) {
+  const { games } = store.getGames(null, 50);
+  return {
+    games,
+    moves: games.map((game) => store.getMoves(game.id)),
+    payouts: store.getPayouts(),
+    status: store.getStatus(),
+  };
+}
+
+async function indexedStore(payloads: ChainhookPayload[]) {
+  const store = await openGameStore();
+  for (const payload of payloads)
+    ingestChainhookPayload(store, payload, CONTRACT_ID);
+  return store;
+}
+
+describe("chainhook ingestion", () => {
+  let directory: string | null = null;
+
+  afterEach(() => {
+    if (directory) rmSync(directory, { recursive: true, force: true });
+    directory = null;
+  });
+
+  it("indexes games, moves and payouts from the print events", async () => {
+    const store = await indexedStore(blocks);
+
+    expect(store.getGame(0)).toEqual({
+      id: 0,
+      "player-one": ALICE,
+      "player-two": BOB,
+      "is-player-one-turn": false,
+      "bet-amount": "1000000",
+      board: [2, 2, 1, 0, 1, 0, 1, 0, 0],
+      winner: ALICE,
+      status: "won",
+      "invited-opponent": null,
+    });
+    expect(store.getGame(1)).toMatchObject({
+      "player-one": BOB,
+      "player-two": CAROL,
+      board: [1, 1, 2, 2, 2, 1, 1, 2, 1],
+      winner: null,
+      status: "draw",
+    });
+    expect(
+      store.getMoves(0).map(({ player, moveIndex }) => [player, moveIndex])
+    ).toEqual([
+      [ALICE, 4],
+      [BOB, 0],
+      [ALICE, 2],
+      [BOB, 1],
+      [ALICE, 6],
+    ]);
+    expect(
+      store
+        .getPayouts()
+        .map(({ gameId, player, amount }) => [gameId, player, amount])
+    ).toEqual([
+      [1, BOB, "500000"],
+      [1, CAROL, "500000"],
+      [0, ALICE, "2000000"],
+    ]);
+    expect(store.getStatus()).toEqual({
+      eventCount: 14,
+      gameCount: 2,
+      lastBlockHeight: 106,
+    });
+  });
+
+  it("indexes the invited opponent of challenges", async () => {
+    const block = structuredClone(blocks[0]);
+    const [, printEvent] =
+      block.apply[0].transactions[0].metadata.receipt.events;
+    printEvent.data.raw_value = `0x${serializeCV(
+      Cl.tuple({
+        action: Cl.stringAscii("create-game"),
+        "game-id": Cl.uint(0),
+        "player-one": Cl.standardPrincipal(ALICE),
+        "bet-amount": Cl.uint(1000000),
+        "first-move": Cl.uint(4),
+        "invited-opponent": Cl.some(Cl.standardPrincipal(CAROL)),
+      })
+    )}`;
+
+    const store = await indexedStore([block]);
+
+    expect(store.getGame(0)).toMatchObject({
+      "player-one": ALICE,
+      status: "waiting",
+      "invited-opponent": CAROL,
+    });
+  });
+
+  it("ignores payloads that are delivered again", async () => {
+    const store = await indexedStore(blocks);
+    const before = snapshot(store);
+
+    const results = blocks.map((payload) =>
+      ingestChainhookPayload(store, payload, CONTRACT_ID)
+    );
+
+    expect(
+      results.every(
+        ({ applied, rolledBack }) => applied === 0 && rolledBack === 0
+      )
+    ).toBe(true);
+    expect(snapshot(store)).toEqual(before);
+  });
+
+  it("rolls back blocks that left the chain", async () => {
+    const store = await indexedStore(blocks);
+
+    const result = ingestChainhookPayload(
+      store,
+      { apply: [], rollback: reorg.rollback },
+      CONTRACT_ID
+    );
+
+    expect(result).toEqual({ applied: 0, rolledBack: 1 });
+    expect(store.getGame(1)).toMatchObject({
+      status: "in-progress",
+      "is-player-one-turn": true,
+    });
+    expect(store.getMoves(1)).toHaveLength(8);
+    expect(store.getPayouts(BOB)).toEqual([]);
+    expect(store.getStatus().lastBlockHeight).toBe(105);
+  });
+
+  it("applies a reorg once, no matter how often it is delivered", async () => {
+    const store = await indexedStore(blocks);
+
+    // The draw move is rolled back with block 106 and applied again in block 107
+    expect(ingestChainhookPayload(store, reorg, CONTRACT_ID)).toEqual({
+      applied: 2,
+      rolledBack: 1,
+    });
+    const afterReorg = snapshot(store);
+    expect(ingestChainhookPayload(store, reorg, CONTRACT_ID)).toEqual({
+      applied: 0,
+      rolledBack: 0,
+    });
+
+    expect(snapshot(store)).toEqual(afterReorg);
+    expect(store.getGame(2)).toMatchObject({
+      "player-one": CAROL,
+      status: "waiting",
+    });
+    // The draw moved to block 107 together with its payouts
+    expect(store.getGame(1)).toMatchObject({ status: "draw" });
+    expect(store.getMoves(1).at(-1)).toMatchObject({
+      moveIndex: 1,
+      blockHeight: 107,
+    });
+    expect(store.getPayouts(CAROL)).toMatchObject([
+      { gameId: 1, blockHeight: 107 },
+    ]);
+    expect(store.getStatus()).toEqual({
+      eventCount: 15,
+      gameCount: 3,
+      lastBlockHeight: 107,
+    });
+  });
+
+  it("ends up in the same state as a store that only saw the new chain", async () => {
+    const reorged = await indexedStore([...blocks, reorg]);
+    const direct = await indexedStore([
+      ...blocks.slice(0, 6),
+      { apply: reorg.apply, rollback: [] },
+    ]);
+
+    expect(snapshot(reorged)).toEqual(snapshot(direct));
+  });
+
+  it("keeps the index across restarts", async () => {
+    directory = mkdtempSync(join(tmpdir(), "indexer-"));
+    const path = join(directory, "data", "indexer.sqlite");
+    const store = await openGameStore(path);
+    for (const payload of blocks)
+      ingestChainhookPayload(store, payload, CONTRACT_ID);
+    const before = snapshot(store);
+    store.save();
+    store.close();
+
+    const reopened = await openGameStore(path);
+
+    expect(snapshot(reopened)).toEqual(before);
+    expect(
+      ingestChainhookPayload(reopened, reorg, CONTRACT_ID).rolledBack
+    ).toBe(1);
+  });
+});
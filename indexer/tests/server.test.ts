@@ -0,0 +1,131 @@
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { createIndexerServer } from "../src/server";
+import {
+  AllGames,
+  GameStore,
+  GamesPage,
+  IndexedGame,
+  IndexedMove,
+  IndexedPayout,
+  openGameStore,
+} from "../src/store";
+import blockPayloads from "./fixtures/chainhook-blocks.json";
+import reorgPayload from "./fixtures/chainhook-reorg.json";
+
+const CONTRACT_ID = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.tic-tac-toe";
+const ALICE = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+const AUTH_TOKEN = "chainhook-secret";
+
+describe("indexer server", () => {
+  let store: GameStore;
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    store = await openGameStore();
+    server = createIndexerServer(store, {
+      contractId: CONTRACT_ID,
+      authToken: AUTH_TOKEN,
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
+
+  function postPayload(payload: unknown, token = AUTH_TOKEN) {
+    return fetch(`${url}/chainhook`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+  }
+
+  async function getJson<T = unknown>(path: string) {
+    const response = await fetch(`${url}${path}`);
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  it("ingests chainhook payloads and serves the games", async () => {
+    for (const payload of blockPayloads) {
+      expect((await postPayload(payload)).status).toBe(200);
+    }
+    const reorg = await postPayload(reorgPayload);
+    expect(await reorg.json()).toEqual({ applied: 2, rolledBack: 1 });
+
+    const firstPage = await getJson<GamesPage>("/games?limit=2");
+    expect(firstPage.body.games.map((game) => game.id)).toEqual([2, 1]);
+    expect(firstPage.body.nextCursor).toBe(0);
+    const lastPage = await getJson<GamesPage>("/games?cursor=0&limit=2");
+    expect(lastPage.body).toMatchObject({
+      games: [{ id: 0, winner: ALICE }],
+      nextCursor: null,
+    });
+
+    expect(
+      (await getJson<{ game: IndexedGame }>("/games/1")).body.game
+    ).toMatchObject({ status: "draw" });
+    const all = (await getJson<AllGames>("/games/all")).body;
+    expect(all.games.map((game) => game.id)).toEqual([2, 1, 0]);
+    // Block of the latest event of every game
+    expect(all.activity).toEqual([
+      [0, 103],
+      [1, 107],
+      [2, 106],
+    ]);
+    expect(
+      (await getJson<{ moves: IndexedMove[] }>("/games/0/moves")).body.moves
+    ).toHaveLength(5);
+    expect(
+      (await getJson<{ payouts: IndexedPayout[] }>(`/payouts?player=${ALICE}`))
+        .body.payouts
+    ).toEqual([expect.objectContaining({ gameId: 0, amount: "2000000" })]);
+    expect((await getJson("/status")).body).toEqual({
+      eventCount: 15,
+      gameCount: 3,
+      lastBlockHeight: 107,
+    });
+  });
+
+  it("rejects chainhook payloads without the auth token", async () => {
+    const response = await postPayload(blockPayloads[0], "wrong-token");
+
+    expect(response.status).toBe(401);
+    expect(store.getStatus().eventCount).toBe(0);
+  });
+
+  it("rejects payloads that are not JSON", async () => {
+    const response = await fetch(`${url}/chainhook`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${AUTH_TOKEN}` },
+      body: "{ apply: ",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("answers invalid requests with errors", async () => {
+    expect(await getJson("/games/7")).toEqual({
+      status: 404,
+      body: { error: "Game not found" },
+    });
+    expect((await getJson("/games/-1")).status).toBe(400);
+    expect((await getJson("/games/1/board")).status).toBe(404);
+    expect((await getJson("/games?limit=51")).status).toBe(400);
+    expect((await getJson("/games?cursor=abc")).status).toBe(400);
+    expect((await getJson("/unknown")).status).toBe(404);
+    expect((await fetch(`${url}/games`, { method: "DELETE" })).status).toBe(
+      405
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { ChainhookPayload, ingestChainhookPayload } from "../src/chainhook";
+import {
+  ApiContractEvent,
+  ApiTransaction,
+  syncFromStacksApi,
+} from "../src/stacks-api";
+import { GameStore, openGameStore } from "../src/store";
+import blockPayloads from "./fixtures/chainhook-blocks.json";
+import reorgPayload from "./fixtures/chainhook-reorg.json";
+import eventsEndpoint from "./fixtures/events-endpoint.json";
+import {
+  FixtureServer,
+  startFixtureServer,
+} from "./fixtures/stacks-api-server";
+
+// The events of the contract newest first and the transactions they belong to, recorded on the
+// chain the chainhook fixtures end up with after their reorg
+const { contractId, events, transactions } = eventsEndpoint as {
+  contractId: string;
+  events: ApiContractEvent[];
+  transactions: Record<string, ApiTransaction>;
+};
+
+// Serve the events in pages of 50 like the Stacks API, together with their transactions
+function eventRoutes(served: ApiContractEvent[]) {
+  const routes: Record<string, unknown> = {};
+  for (let offset = 0; offset < served.length || offset === 0; offset += 50) {
+    routes[
+      `/extended/v1/contract/${contractId}/events?limit=50&offset=${offset}`
+    ] = {
+      limit: 50,
+      offset,
+      results: served.slice(offset, offset + 50),
+    };
+  }
+  for (const transaction of Object.values(transactions)) {
+    routes[`/extended/v1/tx/${transaction.tx_id}`] = transaction;
+  }
+  return routes;
+}
+
+function snapshot(store: GameStore) {
+  const { games } = store.getGames(null, 50);
+  return {
+    games,
+    moves: games.map((game) => store.getMoves(game.id)),
+    payouts: store.getPayouts(),
+    status: store.getStatus(),
+  };
+}
+
+describe("syncFromStacksApi", () => {
+  let server: FixtureServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("indexes the same games as the chainhook payloads", async () => {
+    server = await startFixtureServer(eventRoutes(events));
+    const store = await openGameStore();
+    const fromChainhook = await openGameStore();
+    for (const payload of [
+      ...blockPayloads,
+      reorgPayload,
+    ] as ChainhookPayload[]) {
+      ingestChainhookPayload(fromChainhook, payload, contractId);
+    }
+
+    const { applied } = await syncFromStacksApi(store, {
+      apiUrl: server.url,
+      contractId,
+    });
+
+    expect(applied).toBe(15);
+    expect(snapshot(store)).toEqual(snapshot(fromChainhook));
+  });
+
+  it("only fetches the transactions of new events", async () => {
+    // Before the last two blocks were mined
+    server = await startFixtureServer(eventRoutes(events.slice(2)));
+    const store = await openGameStore();
+    await syncFromStacksApi(store, { apiUrl: server.url, contractId });
+    expect(store.getGame(1)).toMatchObject({ status: "in-progress" });
+    await server.close();
+
+    server = await startFixtureServer(eventRoutes(events));
+    const { applied } = await syncFromStacksApi(store, {
+      apiUrl: server.url,
+      contractId,
+    });
+
+    expect(applied).toBe(2);
+    expect(store.getGame(1)).toMatchObject({ status: "draw" });
+    expect(store.getGame(2)).toMatchObject({ status: "waiting" });
+    expect(server.requests).toEqual([
+      `/extended/v1/contract/${contractId}/events?limit=50&offset=0`,
+      ...events.slice(0, 2).map(({ tx_id }) => `/extended/v1/tx/${tx_id}`),
+    ]);
+
+    // Nothing new, the first page already ends at a known event
+    expect(
+      await syncFromStacksApi(store, { apiUrl: server.url, contractId })
+    ).toEqual({
+      applied: 0,
+    });
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it("backfills the history when chainhook delivered the newest blocks first", async () => {
+    server = await startFixtureServer(eventRoutes(events));
+    const store = await openGameStore();
+    const fromChainhook = await openGameStore();
+    for (const payload of [
+      ...blockPayloads,
+      reorgPayload,
+    ] as ChainhookPayload[]) {
+      ingestChainhookPayload(fromChainhook, payload, contractId);
+    }
+    // Chainhook was registered after the contract had been in use for a while
+    ingestChainhookPayload(store, reorgPayload as ChainhookPayload, contractId);
+
+    const { applied } = await syncFromStacksApi(store, {
+      apiUrl: server.url,
+      contractId,
+    });
+
+    expect(applied).toBe(13);
+    expect(snapshot(store)).toEqual(snapshot(fromChainhook));
+    expect(store.getSyncedHeight()).toBe(107);
+  });
+
+  it("stores events with the block hash chainhook rolls them back by", async () => {
+    server = await startFixtureServer(eventRoutes(events));
+    const store = await openGameStore();
+    await syncFromStacksApi(store, { apiUrl: server.url, contractId });
+    const [newest] = events;
+
+    const { rolledBack } = ingestChainhookPayload(
+      store,
+      {
+        apply: [],
+        rollback: [
+          {
+            block_identifier: {
+              index: 107,
+              hash: transactions[newest.tx_id].index_block_hash,
+            },
+            transactions: [],
+          },
+        ],
+      },
+      contractId
+    );
+
+    expect(rolledBack).toBe(1);
+    expect(store.getGame(1)).toMatchObject({ status: "in-progress" });
+  });
+
+  it("skips events of transactions that are no longer canonical", async () => {
+    const [newest] = events;
+    server = await startFixtureServer({
+      ...eventRoutes(events),
+      [`/extended/v1/tx/${newest.tx_id}`]: {
+        ...transactions[newest.tx_id],
+        canonical: false,
+      },
+    });
+    const store = await openGameStore();
+
+    const { applied } = await syncFromStacksApi(store, {
+      apiUrl: server.url,
+      contractId,
+    });
+
+    expect(applied).toBe(14);
+    expect(store.hasEvent(newest.tx_id, newest.event_index)).toBe(false);
+    // The next sync walks back to the skipped event again
+    expect(store.getSyncedHeight()).toBeNull();
+    expect(store.getGame(1)).toMatchObject({ status: "in-progress" });
+  });
+});
@@ -10,9 +10,12 @@ import {
   uintCV,
   UIntCV,
 } from "@stacks/transactions";
+import { getContract } from "./contract-registry";
 
-const CONTRACT_ADDRESS = "ST2TG9G3H0WD4Q69CXZ5KW973RFX5XGHD54TGX5PR";
-const CONTRACT_NAME = "tic-tac-toe";
+const { address: CONTRACT_ADDRESS, name: CONTRACT_NAME } = getContract(
+  "testnet",
+  "tic-tac-toe"
+);
 
 type GameCV = {
   "player-one": PrincipalCV;
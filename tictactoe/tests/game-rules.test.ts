@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+  applyMove,
+  EMPTY_BOARD,
+  GameState,
+  getCreateGameError,
+  getGameStatus,
+  getMoveError,
+  hasWon,
+  isBoardFull,
+  Move,
+} from "../../frontend/lib/game-rules";
+import { CONTRACT_ERRORS } from "../../frontend/lib/contract-errors";
+
+// Small seeded PRNG so every run plays the same "random" games
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function expectedResult(error: keyof typeof CONTRACT_ERRORS | null, gameId: number) {
+  return error === null
+    ? Cl.ok(Cl.uint(gameId))
+    : Cl.error(Cl.uint(CONTRACT_ERRORS[error].code));
+}
+
+function gameTuple(game: GameState, betAmount: bigint) {
+  return Cl.some(
+    Cl.tuple({
+      "player-one": Cl.standardPrincipal(game["player-one"]),
+      "player-two": game["player-two"]
+        ? Cl.some(Cl.standardPrincipal(game["player-two"]))
+        : Cl.none(),
+      "is-player-one-turn": Cl.bool(game["is-player-one-turn"]),
+      "bet-amount": Cl.uint(betAmount),
+      board: Cl.list(game.board.map((cell) => Cl.uint(cell))),
+      winner: game.winner ? Cl.some(Cl.standardPrincipal(game.winner)) : Cl.none(),
+      "invited-opponent": game["invited-opponent"]
+        ? Cl.some(Cl.standardPrincipal(game["invited-opponent"]))
+        : Cl.none(),
+    })
+  );
+}
+
+// Statuses of get-game-status for the ones getGameStatus derives from the games map
+const CONTRACT_STATUSES = {
+  waiting: "waiting-for-player",
+  "in-progress": "in-progress",
+  won: "finished",
+  draw: "draw",
+};
+
+function gameStatusTuple(game: GameState, betAmount: bigint) {
+  const status = getGameStatus(game);
+  return Cl.tuple({
+    status: Cl.stringAscii(CONTRACT_STATUSES[status]),
+    winner: game.winner ? Cl.some(Cl.standardPrincipal(game.winner)) : Cl.none(),
+    "total-prize": Cl.uint(2n * betAmount),
+    "is-draw": Cl.bool(status === "draw"),
+  });
+}
+
+describe("Client-side game rules agree with the contract", () => {
+
+  it("create-game accepts and rejects the same first moves and opponents", () => {
+    const accounts = simnet.getAccounts();
+    const player1 = accounts.get('wallet_1')!;
+    const player2 = accounts.get('wallet_2')!;
+    let gameId = 0;
+
+    for (const opponent of [null, player1, player2]) {
+      for (const betAmount of [0n, 1000000n]) {
+        for (let moveIndex = 0; moveIndex < 10; moveIndex++) {
+          for (const move of [Move.EMPTY, Move.X, Move.O, 3]) {
+            const error = getCreateGameError(betAmount, moveIndex, move, player1, opponent);
+            const result = simnet.callPublicFn(
+              'tic-tac-toe',
+              'create-game',
+              [
+                Cl.uint(betAmount),
+                Cl.uint(moveIndex),
+                Cl.uint(move),
+                opponent ? Cl.some(Cl.standardPrincipal(opponent)) : Cl.none(),
+              ],
+              player1
+            );
+
+            expect(result.result).toEqual(expectedResult(error, gameId));
+            if (error === null) gameId++;
+          }
+        }
+      }
+    }
+  });
+
+  it("random move sequences produce the same results, boards and outcomes", () => {
+    const accounts = simnet.getAccounts();
+    const players = [
+      accounts.get('wallet_1')!,
+      accounts.get('wallet_2')!,
+      accounts.get('wallet_3')!,
+    ];
+    const random = mulberry32(20240501);
+    const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+
+    for (let gameId = 0; gameId < 20; gameId++) {
+      const playerOne = pick(players);
+      const betAmount = BigInt(1000 + Math.floor(random() * 1000000));
+      const firstMove = Math.floor(random() * 9);
+      // Some games are challenges, so joining is rejected for the players who were not invited
+      const invitedOpponent =
+        random() < 0.3 ? pick(players.filter((player) => player !== playerOne)) : null;
+
+      simnet.callPublicFn(
+        'tic-tac-toe',
+        'create-game',
+        [
+          Cl.uint(betAmount),
+          Cl.uint(firstMove),
+          Cl.uint(Move.X),
+          invitedOpponent ? Cl.some(Cl.standardPrincipal(invitedOpponent)) : Cl.none(),
+        ],
+        playerOne
+      );
+      let game: GameState = {
+        "player-one": playerOne,
+        "player-two": null,
+        "is-player-one-turn": false,
+        board: EMPTY_BOARD.map((cell, index) => (index === firstMove ? Move.X : cell)),
+        winner: null,
+        "invited-opponent": invitedOpponent,
+      };
+
+      for (let step = 0; step < 25; step++) {
+        // Mostly plausible moves, with wrong players, taken cells, wrong symbols and
+        // out of range indexes mixed in so the rejection paths are covered as well
+        const player = pick(players);
+        const moveIndex = random() < 0.1 ? 9 : Math.floor(random() * 9);
+        const move = random() < 0.8 ? (game["is-player-one-turn"] ? Move.X : Move.O) : pick([Move.X, Move.O, 3]);
+
+        const functionName = game["player-two"] === null ? 'join-game' : 'play';
+        const error = getMoveError(game, player, moveIndex, move);
+        const result = simnet.callPublicFn(
+          'tic-tac-toe',
+          functionName,
+          [Cl.uint(gameId), Cl.uint(moveIndex), Cl.uint(move)],
+          player
+        );
+
+        expect(result.result).toEqual(expectedResult(error, gameId));
+        if (error === null) game = applyMove(game, player, moveIndex, move);
+
+        const onChain = simnet.callReadOnlyFn('tic-tac-toe', 'get-game', [Cl.uint(gameId)], player);
+        expect(onChain.result).toEqual(gameTuple(game, betAmount));
+
+        const isFull = simnet.callReadOnlyFn('tic-tac-toe', 'is-board-full', [Cl.uint(gameId)], player);
+        expect(isFull.result).toBeOk(Cl.bool(isBoardFull(game.board)));
+        const status = simnet.callReadOnlyFn('tic-tac-toe', 'get-game-status', [Cl.uint(gameId)], player);
+        expect(status.result).toBeOk(gameStatusTuple(game, betAmount));
+        expect(game.winner !== null).toBe(hasWon(game.board));
+      }
+    }
+  }, 30000);
+
+});
@@ -11,7 +11,7 @@ describe("Tic Tac Toe Game Tests", () => {
     const result = simnet.callPublicFn(
       'tic-tac-toe',
       'create-game', 
-      [Cl.uint(betAmount), Cl.uint(0), Cl.uint(1)],
+      [Cl.uint(betAmount), Cl.uint(0), Cl.uint(1), Cl.none()],
       player1
     );
     
@@ -28,7 +28,7 @@ describe("Tic Tac Toe Game Tests", () => {
     simnet.callPublicFn(
       'tic-tac-toe',
       'create-game', 
-      [Cl.uint(betAmount), Cl.uint(0), Cl.uint(1)],
+      [Cl.uint(betAmount), Cl.uint(0), Cl.uint(1), Cl.none()],
       player1
     );
     
@@ -51,7 +51,7 @@ describe("Tic Tac Toe Game Tests", () => {
     const gameId = 0;
     
     // Create and join game
-    simnet.callPublicFn('tic-tac-toe', 'create-game', [Cl.uint(betAmount), Cl.uint(0), Cl.uint(1)], player1);
+    simnet.callPublicFn('tic-tac-toe', 'create-game', [Cl.uint(betAmount), Cl.uint(0), Cl.uint(1), Cl.none()], player1);
     simnet.callPublicFn('tic-tac-toe', 'join-game', [Cl.uint(gameId), Cl.uint(1), Cl.uint(2)], player2);
     
     // Setup winning game scenario untuk Player 1 (diagonal win: 0, 4, 8)
@@ -86,4 +86,75 @@ describe("Tic Tac Toe Game Tests", () => {
     );
   });
 
+  it("Only the invited opponent can join a challenge", () => {
+    const accounts = simnet.getAccounts();
+    const player1 = accounts.get('wallet_1')!;
+    const player2 = accounts.get('wallet_2')!;
+    const player3 = accounts.get('wallet_3')!;
+    const betAmount = 1000000;
+    
+    const created = simnet.callPublicFn(
+      'tic-tac-toe',
+      'create-game', 
+      [Cl.uint(betAmount), Cl.uint(0), Cl.uint(1), Cl.some(Cl.standardPrincipal(player2))],
+      player1
+    );
+    expect(created.result).toEqual(Cl.ok(Cl.uint(0)));
+    expect(created.events[1].data.value).toEqual(
+      Cl.tuple({
+        action: Cl.stringAscii("create-game"),
+        "game-id": Cl.uint(0),
+        "player-one": Cl.standardPrincipal(player1),
+        "bet-amount": Cl.uint(betAmount),
+        "first-move": Cl.uint(0),
+        "invited-opponent": Cl.some(Cl.standardPrincipal(player2)),
+      })
+    );
+    
+    // Anyone else is rejected and keeps their bet
+    const rejected = simnet.callPublicFn(
+      'tic-tac-toe',
+      'join-game', 
+      [Cl.uint(0), Cl.uint(1), Cl.uint(2)],
+      player3
+    );
+    expect(rejected.result).toEqual(Cl.error(Cl.uint(108)));
+    expect(rejected.events).toHaveLength(0);
+    
+    const accepted = simnet.callPublicFn(
+      'tic-tac-toe',
+      'join-game', 
+      [Cl.uint(0), Cl.uint(1), Cl.uint(2)],
+      player2
+    );
+    expect(accepted.result).toEqual(Cl.ok(Cl.uint(0)));
+    
+    const game = simnet.callReadOnlyFn('tic-tac-toe', 'get-game', [Cl.uint(0)], player1);
+    expect(game.result).toBeSome(
+      Cl.tuple({
+        "player-one": Cl.standardPrincipal(player1),
+        "player-two": Cl.some(Cl.standardPrincipal(player2)),
+        "is-player-one-turn": Cl.bool(true),
+        "bet-amount": Cl.uint(betAmount),
+        board: Cl.list([1, 2, 0, 0, 0, 0, 0, 0, 0].map((cell) => Cl.uint(cell))),
+        winner: Cl.none(),
+        "invited-opponent": Cl.some(Cl.standardPrincipal(player2)),
+      })
+    );
+  });
+
+  it("Players cannot challenge themselves", () => {
+    const accounts = simnet.getAccounts();
+    const player1 = accounts.get('wallet_1')!;
+    
+    const result = simnet.callPublicFn(
+      'tic-tac-toe',
+      'create-game', 
+      [Cl.uint(1000000), Cl.uint(0), Cl.uint(1), Cl.some(Cl.standardPrincipal(player1))],
+      player1
+    );
+    
+    expect(result.result).toEqual(Cl.error(Cl.uint(109)));
+  });
+
 });
\ No newline at end of file